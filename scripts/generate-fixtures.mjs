@@ -0,0 +1,543 @@
+// Builds the offline fixture set in /fixtures (see README, "Zdroj dat").
+//
+// Recorded Jolpica responses are the starting point: the 2025 schedule and
+// the round 1 classification of the ten drivers the fixtures follow. Rounds 2
+// and 3 add those drivers' classifications, and every other endpoint the app
+// calls (standings, qualifying, sprints, laps, pit stops, driver and
+// constructor pages) is derived from them. Timing detail (lap times, pit stop
+// laps and durations, qualifying laps) is generated from a fixed seed, so
+// re-running the script rewrites identical files.
+//
+//     node scripts/generate-fixtures.mjs
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), "..", "fixtures");
+const SEASON = "2025";
+const SEED = 2025;
+
+const RACE_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
+const SPRINT_POINTS = [8, 7, 6, 5, 4, 3, 2, 1];
+
+// Per round: race distance, the circuit's UTC offset (pit stop times are local),
+// stops per car, the qualifying order and the classification. Entries are
+// [driverId, position, grid, gap to the winner in ms]; a position of null is
+// a disqualification, a gap of null a lapped car. Round 1 comes from the
+// recorded results, so only its qualifying and stops are listed.
+const ROUNDS = {
+    1: {
+        laps: 57,
+        utcOffset: 11,
+        stops: 2,
+        poleMillis: 75_096,
+        qualifying: ["norris", "piastri", "max_verstappen", "russell", "albon", "leclerc", "hamilton", "stroll", "antonelli", "hulkenberg"],
+        qualifyingPositions: [1, 2, 3, 4, 6, 7, 8, 13, 16, 17],
+    },
+    2: {
+        laps: 56,
+        utcOffset: 8,
+        stops: 1,
+        poleMillis: 90_641,
+        winnerMillis: 5_455_026,
+        qualifying: ["piastri", "russell", "norris", "max_verstappen", "hamilton", "leclerc", "antonelli", "albon", "stroll", "hulkenberg"],
+        qualifyingPositions: [1, 2, 3, 4, 5, 6, 8, 10, 14, 18],
+        race: [
+            ["piastri", 1, 1, 0],
+            ["norris", 2, 3, 9_748],
+            ["russell", 3, 2, 11_097],
+            ["max_verstappen", 4, 4, 16_656],
+            ["antonelli", 6, 8, 53_748],
+            ["albon", 7, 10, 56_321],
+            ["stroll", 9, 14, 70_204],
+            ["hulkenberg", 15, 18, null],
+            ["leclerc", null, 6, 23_211],
+            ["hamilton", null, 5, 38_004],
+        ],
+        sprint: {
+            laps: 19,
+            winnerMillis: 1_839_965,
+            race: [
+                ["hamilton", 1, 1, 0],
+                ["piastri", 2, 3, 6_889],
+                ["max_verstappen", 3, 2, 9_804],
+                ["russell", 4, 4, 11_592],
+                ["leclerc", 5, 5, 12_190],
+                ["antonelli", 7, 7, 22_288],
+                ["norris", 8, 6, 23_038],
+                ["albon", 12, 11, 32_467],
+                ["hulkenberg", 13, 17, 33_109],
+                ["stroll", 16, 15, 41_882],
+            ],
+        },
+    },
+    3: {
+        laps: 53,
+        utcOffset: 9,
+        stops: 1,
+        poleMillis: 86_983,
+        winnerMillis: 4_926_983,
+        qualifying: ["max_verstappen", "norris", "piastri", "leclerc", "russell", "antonelli", "hamilton", "albon", "hulkenberg", "stroll"],
+        qualifyingPositions: [1, 2, 3, 4, 5, 6, 8, 9, 15, 19],
+        race: [
+            ["max_verstappen", 1, 1, 0],
+            ["norris", 2, 2, 1_423],
+            ["piastri", 3, 3, 2_129],
+            ["leclerc", 4, 4, 16_097],
+            ["russell", 5, 5, 17_362],
+            ["antonelli", 6, 6, 18_671],
+            ["hamilton", 7, 8, 29_182],
+            ["albon", 9, 9, 54_529],
+            ["hulkenberg", 16, 15, 80_331],
+            ["stroll", 20, 19, null],
+        ],
+    },
+};
+
+// mulberry32, as in src/lib/forecast.ts
+const createRandom = (seed) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+const random = createRandom(SEED);
+const between = (min, max) => min + (max - min) * random();
+
+const readFixture = (path) => JSON.parse(readFileSync(join(FIXTURES, `${path}.json`), "utf8"));
+
+const writeFixture = (path, table, body) => {
+    const file = join(FIXTURES, `${path}.json`);
+    const total = Object.values(body).find(Array.isArray)?.reduce(
+        (sum, item) => sum + countRows(item),
+        0
+    ) ?? 1;
+    mkdirSync(dirname(file), { recursive: true });
+    // A limit covering `total` tells the app there are no further pages
+    const MRData = {
+        xmlns: "",
+        series: "f1",
+        url: `https://api.jolpi.ca/ergast/f1/${path}.json`,
+        limit: String(Math.max(30, total)),
+        offset: "0",
+        total: String(total),
+        [table]: body,
+    };
+    writeFileSync(file, `${JSON.stringify({ MRData }, null, 2)}\n`);
+};
+
+// Jolpica counts rows (results, timings, standings entries), not races
+const countRows = (item) => {
+    const rows = ["Results", "SprintResults", "QualifyingResults", "PitStops", "DriverStandings", "ConstructorStandings"]
+        .map((key) => item[key]?.length)
+        .find((length) => length !== undefined);
+    if (rows !== undefined) return rows;
+    if (item.Laps) return item.Laps.reduce((sum, lap) => sum + lap.Timings.length, 0);
+    return 1;
+};
+
+const formatLap = (millis) => {
+    const minutes = Math.floor(millis / 60_000);
+    const seconds = ((millis % 60_000) / 1000).toFixed(3).padStart(6, "0");
+    return `${minutes}:${seconds}`;
+};
+
+const formatRaceTime = (millis) => {
+    const hours = Math.floor(millis / 3_600_000);
+    const minutes = String(Math.floor((millis % 3_600_000) / 60_000)).padStart(hours > 0 ? 2 : 1, "0");
+    const seconds = ((millis % 60_000) / 1000).toFixed(3).padStart(6, "0");
+    return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const formatClock = (date, utcOffset) => {
+    const local = new Date(date.getTime() + utcOffset * 3_600_000);
+    return local.toISOString().slice(11, 19);
+};
+
+// ----------------------------------------------------------------------------
+// Recorded inputs
+
+const schedule = readFixture(SEASON).MRData.RaceTable.Races;
+const recordedRound1 = readFixture(`${SEASON}/1/results`).MRData.RaceTable.Races[0];
+
+const drivers = new Map();
+const constructorOf = new Map();
+const numberOf = new Map();
+for (const result of recordedRound1.Results) {
+    drivers.set(result.Driver.driverId, result.Driver);
+    constructorOf.set(result.Driver.driverId, result.Constructor);
+    numberOf.set(result.Driver.driverId, result.number);
+}
+const constructors = new Map([...constructorOf.values()].map((team) => [team.constructorId, team]));
+
+// What a results file repeats of the race: no session times
+const raceHeader = (race) => {
+    const { season, round, url, raceName, Circuit, date, time } = race;
+    return { season, round, url, raceName, Circuit, date, time };
+};
+
+// ----------------------------------------------------------------------------
+// Classifications
+
+const buildResults = (round, entries, laps, winnerMillis, table) =>
+    entries.map(([driverId, position, grid, gap], index) => {
+        const disqualified = position === null;
+        const lapped = gap === null;
+        const finalPosition = disqualified ? 18 + index - entries.findIndex(([, p]) => p === null) : position;
+        const result = {
+            number: numberOf.get(driverId),
+            position: String(finalPosition),
+            positionText: disqualified ? "D" : String(position),
+            points: String(disqualified ? 0 : table[position - 1] ?? 0),
+            Driver: drivers.get(driverId),
+            Constructor: constructorOf.get(driverId),
+            grid: String(grid),
+            laps: String(lapped ? laps - 1 : laps),
+            status: disqualified ? "Disqualified" : lapped ? "Lapped" : "Finished",
+        };
+        if (!disqualified && !lapped) {
+            result.Time = {
+                millis: String(winnerMillis + gap),
+                time: gap === 0 ? formatRaceTime(winnerMillis) : `+${(gap / 1000).toFixed(3)}`,
+            };
+        }
+        return result;
+    });
+
+// Total time on track of every car, disqualified ones included, for the laps
+const trackMillis = (entries, winnerMillis, laps) =>
+    new Map(entries.map(([driverId, , , gap]) => [
+        driverId,
+        gap === null
+            // A lapped car crosses the line shortly after the winner, a lap down
+            ? winnerMillis + Math.round(between(5_000, 40_000)) - Math.round(winnerMillis / laps)
+            : winnerMillis + gap,
+    ]));
+
+const raceResults = new Map([[1, recordedRound1.Results]]);
+const sprintResults = new Map();
+for (const [round, config] of Object.entries(ROUNDS)) {
+    if (config.race) {
+        raceResults.set(Number(round), buildResults(round, config.race, config.laps, config.winnerMillis, RACE_POINTS));
+    }
+    if (config.sprint) {
+        const { sprint } = config;
+        sprintResults.set(Number(round), buildResults(round, sprint.race, sprint.laps, sprint.winnerMillis, SPRINT_POINTS));
+    }
+}
+
+// ----------------------------------------------------------------------------
+// Laps, pit stops and fastest laps
+
+// Spreads each car's total over its laps: lap one and pit laps are slow, one
+// lap is its fastest and the rest scatter above it
+const buildLaps = (round, totals, lapCounts, fastestLaps, stops) => {
+    const lapTimes = new Map();
+    const pitLaps = new Map();
+    for (const [driverId, total] of totals) {
+        const count = lapCounts.get(driverId);
+        const fastest = fastestLaps.get(driverId);
+        const stopLaps = Array.from({ length: stops }, (_, stop) =>
+            Math.round(((stop + 1) * count) / (stops + 1) + between(-4, 4))
+        ).filter((lap) => lap !== fastest.lap);
+        const weights = Array.from({ length: count }, (_, index) => {
+            const lap = index + 1;
+            if (lap === fastest.lap) return 0;
+            if (lap === 1) return 8;
+            if (stopLaps.includes(lap)) return 30;
+            return 1 + between(0, 1.5);
+        });
+        const spare = total - count * fastest.millis;
+        const sum = weights.reduce((a, b) => a + b, 0);
+        const times = weights.map((weight) => fastest.millis + Math.round((spare * weight) / sum));
+        // Rounding drift goes on the last lap so the laps add up exactly
+        times[count - 1] += total - times.reduce((a, b) => a + b, 0);
+        lapTimes.set(driverId, times);
+        pitLaps.set(driverId, stopLaps);
+    }
+
+    const maxLaps = Math.max(...lapCounts.values());
+    const elapsed = new Map([...lapTimes.keys()].map((driverId) => [driverId, 0]));
+    const Laps = [];
+    for (let lap = 1; lap <= maxLaps; lap++) {
+        const running = [...lapTimes].filter(([, times]) => times.length >= lap);
+        for (const [driverId, times] of running) elapsed.set(driverId, elapsed.get(driverId) + times[lap - 1]);
+        running.sort(([a], [b]) => elapsed.get(a) - elapsed.get(b));
+        Laps.push({
+            number: String(lap),
+            Timings: running.map(([driverId, times], index) => ({
+                driverId,
+                position: String(index + 1),
+                time: formatLap(times[lap - 1]),
+            })),
+        });
+    }
+    return { Laps, lapTimes, pitLaps };
+};
+
+const buildPitStops = (race, config, lapTimes, pitLaps) => {
+    const start = new Date(`${race.date}T${race.time}`);
+    const stops = [];
+    for (const [driverId, laps] of pitLaps) {
+        laps.forEach((lap, index) => {
+            const inLap = lapTimes.get(driverId).slice(0, lap).reduce((a, b) => a + b, 0);
+            stops.push({
+                driverId,
+                lap: String(lap),
+                stop: String(index + 1),
+                time: formatClock(new Date(start.getTime() + inLap), config.utcOffset),
+                duration: between(20.8, 24.5).toFixed(3),
+            });
+        });
+    }
+    return stops.sort((a, b) => a.time.localeCompare(b.time));
+};
+
+// Fastest lap of every car: recorded for round 1, generated otherwise
+const pickFastestLaps = (results, laps, referenceMillis) => {
+    const fastest = new Map();
+    for (const result of results) {
+        if (result.FastestLap?.Time) {
+            const [minutes, seconds] = result.FastestLap.Time.time.split(":");
+            fastest.set(result.Driver.driverId, {
+                lap: Number(result.FastestLap.lap),
+                millis: Math.round((Number(minutes) * 60 + Number(seconds)) * 1000),
+            });
+        } else {
+            fastest.set(result.Driver.driverId, {
+                lap: Math.round(between(laps * 0.6, laps - 2)),
+                millis: Math.round(referenceMillis + between(0, 1_600)),
+            });
+        }
+    }
+    return fastest;
+};
+
+const withFastestLaps = (results, fastest) => {
+    const ranked = [...fastest].sort(([, a], [, b]) => a.millis - b.millis).map(([driverId]) => driverId);
+    return results.map((result) => {
+        if (result.FastestLap) return result;
+        const lap = fastest.get(result.Driver.driverId);
+        return {
+            ...result,
+            FastestLap: {
+                rank: String(ranked.indexOf(result.Driver.driverId) + 1),
+                lap: String(lap.lap),
+                Time: { time: formatLap(lap.millis) },
+            },
+        };
+    });
+};
+
+const lapData = new Map();
+for (const race of schedule) {
+    const round = Number(race.round);
+    const config = ROUNDS[round];
+    const results = raceResults.get(round);
+    const totals = config.race
+        ? trackMillis(config.race, config.winnerMillis, config.laps)
+        : new Map(results.map((result) => [result.Driver.driverId, Number(result.Time.millis)]));
+    const lapCounts = new Map(results.map((result) => [
+        result.Driver.driverId,
+        result.status === "Disqualified" ? config.laps : Number(result.laps),
+    ]));
+    // Fastest laps a few seconds under the average race lap
+    const winnerMillis = Math.min(...totals.values());
+    const fastest = pickFastestLaps(results, config.laps, Math.round(winnerMillis / config.laps) - 3_500);
+    raceResults.set(round, withFastestLaps(results, fastest));
+    const { Laps, lapTimes, pitLaps } = buildLaps(round, totals, lapCounts, fastest, config.stops);
+    lapData.set(round, { Laps, PitStops: buildPitStops(race, config, lapTimes, pitLaps) });
+}
+
+// ----------------------------------------------------------------------------
+// Qualifying
+
+const qualifyingResults = new Map();
+for (const [round, config] of Object.entries(ROUNDS)) {
+    let q1 = config.poleMillis + 600;
+    let q2 = config.poleMillis + 250;
+    let q3 = config.poleMillis;
+    qualifyingResults.set(Number(round), config.qualifying.map((driverId, index) => {
+        const position = config.qualifyingPositions[index];
+        // Each session's times rise with the final order, so the cut lines hold
+        const step = () => Math.round(between(40, 160) * (position - (config.qualifyingPositions[index - 1] ?? 0)));
+        q1 += index === 0 ? 0 : step();
+        q2 += index === 0 ? 0 : step();
+        q3 += index === 0 ? 0 : step();
+        return {
+            number: numberOf.get(driverId),
+            position: String(position),
+            Driver: drivers.get(driverId),
+            Constructor: constructorOf.get(driverId),
+            Q1: formatLap(q1),
+            ...(position <= 15 ? { Q2: formatLap(q2) } : {}),
+            ...(position <= 10 ? { Q3: formatLap(q3) } : {}),
+        };
+    }));
+}
+
+// ----------------------------------------------------------------------------
+// Standings, with the FIA countback on equal points
+
+const isClassified = (positionText) => /^\d+$/.test(positionText);
+
+const standingsAfter = (round) => {
+    const tally = (keyOf) => {
+        const entries = new Map();
+        const entry = (key) => {
+            if (!entries.has(key)) entries.set(key, { key, points: 0, wins: 0, finishes: [] });
+            return entries.get(key);
+        };
+        for (let r = 1; r <= round; r++) {
+            for (const result of sprintResults.get(r) ?? []) entry(keyOf(result)).points += Number(result.points);
+            for (const result of raceResults.get(r)) {
+                const scored = entry(keyOf(result));
+                scored.points += Number(result.points);
+                if (!isClassified(result.positionText)) continue;
+                const position = Number(result.position);
+                scored.finishes[position - 1] = (scored.finishes[position - 1] ?? 0) + 1;
+                if (position === 1) scored.wins++;
+            }
+        }
+        return [...entries.values()].sort((a, b) => {
+            if (a.points !== b.points) return b.points - a.points;
+            for (let index = 0; index < Math.max(a.finishes.length, b.finishes.length); index++) {
+                const difference = (b.finishes[index] ?? 0) - (a.finishes[index] ?? 0);
+                if (difference !== 0) return difference;
+            }
+            return 0;
+        });
+    };
+    const common = (entry, index) => ({
+        position: String(index + 1),
+        positionText: String(index + 1),
+        points: String(entry.points),
+        wins: String(entry.wins),
+    });
+
+    return {
+        drivers: tally((result) => result.Driver.driverId).map((entry, index) => ({
+            ...common(entry, index),
+            Driver: drivers.get(entry.key),
+            Constructors: [constructorOf.get(entry.key)],
+        })),
+        constructors: tally((result) => result.Constructor.constructorId).map((entry, index) => ({
+            ...common(entry, index),
+            Constructor: constructors.get(entry.key),
+        })),
+    };
+};
+
+// ----------------------------------------------------------------------------
+// Files
+
+const rounds = schedule.map((race) => Number(race.round));
+const lastRound = Math.max(...rounds);
+const raceByRound = new Map(schedule.map((race) => [Number(race.round), race]));
+
+const raceTable = (extra, Races) => ({ season: SEASON, ...extra, Races });
+const withResults = (round, filter = () => true) => ({
+    ...raceHeader(raceByRound.get(round)),
+    Results: raceResults.get(round).filter(filter),
+});
+const withSprint = (round, filter = () => true) => ({
+    ...raceHeader(raceByRound.get(round)),
+    SprintResults: sprintResults.get(round).filter(filter),
+});
+const withQualifying = (round, filter = () => true) => ({
+    ...raceHeader(raceByRound.get(round)),
+    QualifyingResults: qualifyingResults.get(round).filter(filter),
+});
+const sprintRounds = rounds.filter((round) => sprintResults.has(round));
+const nonEmpty = (races, key) => races.filter((race) => race[key].length > 0);
+
+// Season-wide lists
+writeFixture(`${SEASON}/results`, "RaceTable", raceTable({}, rounds.map((round) => withResults(round))));
+writeFixture(`${SEASON}/sprint`, "RaceTable", raceTable({}, sprintRounds.map((round) => withSprint(round))));
+
+// Per round
+for (const round of rounds) {
+    const race = raceHeader(raceByRound.get(round));
+    const { Laps, PitStops } = lapData.get(round);
+    // The recorded classification stays as it was downloaded
+    if (round !== 1) {
+        writeFixture(`${SEASON}/${round}/results`, "RaceTable", raceTable({ round: String(round) }, [withResults(round)]));
+    }
+    writeFixture(`${SEASON}/${round}/qualifying`, "RaceTable", raceTable({ round: String(round) }, [withQualifying(round)]));
+    writeFixture(`${SEASON}/${round}/laps`, "RaceTable", raceTable({ round: String(round) }, [{ ...race, Laps }]));
+    writeFixture(`${SEASON}/${round}/pitstops`, "RaceTable", raceTable({ round: String(round) }, [{ ...race, PitStops }]));
+    if (sprintResults.has(round)) {
+        writeFixture(`${SEASON}/${round}/sprint`, "RaceTable", raceTable({ round: String(round) }, [withSprint(round)]));
+    }
+
+    const standings = standingsAfter(round);
+    const list = (key, entries) => ({
+        season: SEASON,
+        round: String(round),
+        StandingsLists: [{ season: SEASON, round: String(round), [key]: entries }],
+    });
+    writeFixture(`${SEASON}/${round}/driverstandings`, "StandingsTable", list("DriverStandings", standings.drivers));
+    writeFixture(`${SEASON}/${round}/constructorstandings`, "StandingsTable", list("ConstructorStandings", standings.constructors));
+    if (round === lastRound) {
+        writeFixture(`${SEASON}/driverstandings`, "StandingsTable", list("DriverStandings", standings.drivers));
+        writeFixture(`${SEASON}/constructorstandings`, "StandingsTable", list("ConstructorStandings", standings.constructors));
+    }
+}
+
+// Driver pages and the comparison
+const finalStandings = standingsAfter(lastRound);
+for (const [driverId, driver] of drivers) {
+    const own = (result) => result.Driver.driverId === driverId;
+    writeFixture(`drivers/${driverId}`, "DriverTable", { driverId, Drivers: [driver] });
+    writeFixture(`drivers/${driverId}/results`, "RaceTable", { driverId, Races: rounds.map((round) => withResults(round, own)) });
+    writeFixture(`drivers/${driverId}/driverstandings`, "StandingsTable", {
+        driverId,
+        StandingsLists: [{
+            season: SEASON,
+            round: String(lastRound),
+            DriverStandings: finalStandings.drivers.filter((standing) => standing.Driver.driverId === driverId),
+        }],
+    });
+    writeFixture(`${SEASON}/drivers/${driverId}/qualifying`, "RaceTable", raceTable({ driverId }, rounds.map((round) => withQualifying(round, own))));
+}
+
+// Constructor pages and the teammate battle
+for (const [constructorId, constructor] of constructors) {
+    const own = (result) => result.Constructor.constructorId === constructorId;
+    const season = rounds.map((round) => withResults(round, own));
+    const atPosition = (position) => nonEmpty(
+        rounds.map((round) => withResults(round, (result) => own(result) && result.positionText === String(position))),
+        "Results"
+    );
+    writeFixture(`constructors/${constructorId}`, "ConstructorTable", { constructorId, Constructors: [constructor] });
+    writeFixture(`constructors/${constructorId}/constructorstandings`, "StandingsTable", {
+        constructorId,
+        StandingsLists: [{
+            season: SEASON,
+            round: String(lastRound),
+            ConstructorStandings: finalStandings.constructors.filter((standing) => standing.Constructor.constructorId === constructorId),
+        }],
+    });
+    writeFixture(`constructors/${constructorId}/results`, "RaceTable", { constructorId, Races: season });
+    writeFixture(`constructors/${constructorId}/results/1`, "RaceTable", { constructorId, position: "1", Races: atPosition(1) });
+    writeFixture(`constructors/${constructorId}/results/2`, "RaceTable", { constructorId, position: "2", Races: atPosition(2) });
+    writeFixture(`constructors/${constructorId}/grid/1/results`, "RaceTable", {
+        constructorId,
+        grid: "1",
+        Races: nonEmpty(rounds.map((round) => withResults(round, (result) => own(result) && result.grid === "1")), "Results"),
+    });
+    writeFixture(`${SEASON}/constructors/${constructorId}/results`, "RaceTable", raceTable({ constructorId }, season));
+    writeFixture(`${SEASON}/constructors/${constructorId}/sprint`, "RaceTable", raceTable(
+        { constructorId },
+        sprintRounds.map((round) => withSprint(round, own))
+    ));
+    writeFixture(`${SEASON}/constructors/${constructorId}/qualifying`, "RaceTable", raceTable(
+        { constructorId },
+        rounds.map((round) => withQualifying(round, own))
+    ));
+}
@@ -1,21 +1,34 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { RateLimitNotice } from "@/components/RateLimitNotice";
+import { queryClient } from "@/lib/queryClient";
 import Index from "./pages/Index";
+import ComparePage from "./pages/ComparePage";
+import ConstructorPage from "./pages/ConstructorPage";
+import DriverPage from "./pages/DriverPage";
 import NotFound from "./pages/NotFound";
-
-const queryClient = new QueryClient();
+import SimulatorPage from "./pages/SimulatorPage";
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <RateLimitNotice />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/" element={<Index section="calendar" />} />
+          <Route path="/driver/:driverId" element={<DriverPage />} />
+          <Route path="/constructor/:constructorId" element={<ConstructorPage />} />
+          <Route path="/compare" element={<ComparePage />} />
+          <Route path="/:season" element={<Index section="calendar" />} />
+          <Route path="/:season/race/:round/:tab?" element={<Index section="calendar" />} />
+          <Route path="/:season/drivers" element={<Index section="drivers" />} />
+          <Route path="/:season/constructors" element={<Index section="constructors" />} />
+          <Route path="/:season/simulator" element={<SimulatorPage />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
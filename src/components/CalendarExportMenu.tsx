@@ -0,0 +1,56 @@
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Race } from "@/services/f1Service";
+import { buildCalendar, downloadCalendar, type CalendarScope } from "@/lib/calendarExport";
+import { CalendarPlus } from "@phosphor-icons/react";
+
+interface CalendarExportMenuProps {
+  season: string | undefined;
+  races: Race[];
+}
+
+const SCOPES: { scope: CalendarScope; label: string; description: string }[] = [
+  { scope: "all", label: "Všechny seance", description: "Tréninky, kvalifikace, sprinty i závody" },
+  { scope: "races", label: "Jen závody", description: "Jedna událost za víkend" },
+  { scope: "sprintWeekends", label: "Sprintové víkendy", description: "Všechny seance víkendů se sprintem" },
+];
+
+const FILE_SUFFIXES: Record<CalendarScope, string> = {
+  all: "",
+  races: "-zavody",
+  sprintWeekends: "-sprinty",
+};
+
+// Downloads the season's sessions as an .ics file for any calendar app
+export function CalendarExportMenu({ season, races }: CalendarExportMenuProps) {
+  if (!season || races.length === 0) return null;
+  const hasSprints = races.some((race) => race.Sprint);
+
+  const exportScope = (scope: CalendarScope) =>
+    downloadCalendar(buildCalendar(races, scope, `F1 ${season}`), `f1-${season}${FILE_SUFFIXES[scope]}.ics`);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 text-gray-300 hover:bg-white/5 hover:text-white transition-all focus:outline-none">
+        <CalendarPlus className="w-4 h-4 text-f1-red" />
+        Do kalendáře
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 bg-[#151515] border-white/10 text-white">
+        {SCOPES.filter(({ scope }) => hasSprints || scope !== "sprintWeekends").map(({ scope, label, description }) => (
+          <DropdownMenuItem
+            key={scope}
+            onSelect={() => exportScope(scope)}
+            className="flex-col items-start gap-0.5 focus:bg-white/10 focus:text-white"
+          >
+            <span className="text-sm font-medium">{label}</span>
+            <span className="text-[11px] text-gray-500">{description}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,160 @@
+import { Link } from "react-router-dom";
+import { useChampionshipMath } from "@/hooks/use-championship-math";
+import type { ClinchScenario } from "@/lib/championship";
+import { getPointsRules } from "@/lib/pointsRules";
+import { simulatorPath } from "@/lib/routes";
+import { TitleBadge } from "./TitleBadge";
+import { Calculator, Crown, Sliders } from "@phosphor-icons/react";
+
+interface ChampionshipMathPanelProps {
+  season: string | undefined;
+  kind: "drivers" | "constructors";
+}
+
+// Explains who can still win the title and what settles it next weekend
+export function ChampionshipMathPanel({ season, kind }: ChampionshipMathPanelProps) {
+  const math = useChampionshipMath(season, kind);
+  if (!math || !math.leader) return null;
+
+  const { leader, remainingRaces, remainingSprints, remainingMax, outlook, nextRound } = math;
+  const leaderStatus = outlook.get(leader.id)?.status;
+
+  // A finished season has nothing left to work out
+  if (leaderStatus === "champion") return null;
+
+  const contenders = [...outlook.entries()].filter(([, entry]) => entry.status !== "eliminated");
+  const eliminated = outlook.size - contenders.length;
+
+  return (
+    <section className="mt-8 p-5 rounded-2xl bg-white/[0.02] border border-white/5 space-y-5">
+      <div className="flex items-center gap-3">
+        <div className="p-2 rounded-xl bg-f1-red/10 border border-f1-red/20">
+          <Calculator className="w-5 h-5 text-f1-red" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-bold text-white">Kdo ještě může vyhrát</h3>
+          <p className="text-xs text-gray-500">
+            Zbývající závody: {remainingRaces.length}{remainingSprints > 0 ? `, sprinty: ${remainingSprints}` : ''} · ve hře je až {remainingMax} b.
+            {kind === "drivers" ? ' pro jednoho jezdce' : ' pro jeden tým'}
+          </p>
+        </div>
+        {season && (
+          <Link
+            to={simulatorPath(season)}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 text-gray-300 hover:bg-white/5 hover:text-white transition-all"
+          >
+            <Sliders className="w-4 h-4 text-f1-red" />
+            Co kdyby…
+          </Link>
+        )}
+      </div>
+
+      {/* Everyone still in the fight */}
+      <div className="space-y-1.5">
+        {contenders.map(([id, entry]) => (
+          <div key={id} className="flex items-center gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/5">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold text-white truncate">{entry.name}</p>
+              <p className="text-[11px] text-gray-500">
+                {entry.behindLeader > 0 ? `−${entry.behindLeader} b. na lídra · ` : ''}maximum {entry.maxPoints} b.
+              </p>
+            </div>
+            <TitleBadge outlook={entry} />
+          </div>
+        ))}
+        {eliminated > 0 && (
+          <p className="text-[11px] text-gray-500 px-1">
+            Dalších {eliminated} už lídra nedožene ani s plným počtem bodů.
+          </p>
+        )}
+      </div>
+
+      {/* What settles it at the next round */}
+      {leaderStatus === "clinched" ? (
+        <div className="flex items-center gap-2 p-3 rounded-xl bg-yellow-500/10 border border-yellow-500/30">
+          <Crown className="w-4 h-4 text-yellow-400" />
+          <p className="text-sm text-yellow-100">{leader.name} má titul matematicky jistý.</p>
+        </div>
+      ) : nextRound && (
+        <NextRoundConditions scenario={nextRound} leaderName={leader.name} season={season} />
+      )}
+
+      <p className="text-[11px] text-gray-500 leading-relaxed">
+        Maximum je dnešní počet bodů plus vítězství ve všech zbývajících závodech a sprintech
+        {kind === "constructors" ? ' (první dvě místa)' : ''} včetně bodu za nejrychlejší kolo, pokud se v sezóně uděluje.
+        Kdo lídra nemůže ani tak dohnat, je bez šance. Shoda bodů se rozhoduje podle počtu vítězství a dalších umístění,
+        proto ji výpočet za jistý titul nepovažuje.
+      </p>
+    </section>
+  );
+}
+
+function NextRoundConditions({ scenario, leaderName, season }: {
+  scenario: ClinchScenario;
+  leaderName: string;
+  season: string | undefined;
+}) {
+  const { race, possible, conditions, positions, withSprint } = scenario;
+  const rules = getPointsRules(season ?? race.season);
+
+  return (
+    <div className="p-4 rounded-xl bg-white/[0.03] border border-white/5 space-y-3">
+      <h4 className="text-sm font-bold text-white">
+        {race.raceName}{withSprint ? ' (se sprintem)' : ''}
+      </h4>
+
+      {!possible ? (
+        <p className="text-sm text-gray-400">O titulu se na tomto víkendu ještě rozhodnout nemůže.</p>
+      ) : (
+        <>
+          <ul className="space-y-1 text-sm text-gray-300">
+            {conditions.map(({ rival, margin }) => (
+              <li key={rival.id}>
+                {margin > 0
+                  ? <>{leaderName} musí získat aspoň o <b className="text-white">{margin} b.</b> víc než {rival.name}.</>
+                  : <>{rival.name} nesmí získat o víc než <b className="text-white">{-margin} b.</b> víc než {leaderName}.</>}
+              </li>
+            ))}
+          </ul>
+
+          {positions.length > 0 && (
+            <div>
+              <div
+                className="grid items-center gap-2 px-2 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-600"
+                style={{ gridTemplateColumns: `6rem repeat(${conditions.length}, minmax(0, 1fr))` }}
+              >
+                <span>{leaderName.split(" ").pop()}</span>
+                {conditions.map(({ rival }) => (
+                  <span key={rival.id} className="truncate">{rival.name.split(" ").pop()} nejlépe</span>
+                ))}
+              </div>
+              <div className="space-y-1">
+                {positions.map((row) => (
+                  <div
+                    key={row.leaderPosition}
+                    className="grid items-center gap-2 p-2 rounded-lg bg-white/[0.02] text-sm tabular-nums"
+                    style={{ gridTemplateColumns: `6rem repeat(${conditions.length}, minmax(0, 1fr))` }}
+                  >
+                    <span className="font-bold text-white">
+                      {row.leaderPosition > rules.race.length ? 'mimo body' : `${row.leaderPosition}. (${row.leaderPoints} b.)`}
+                    </span>
+                    {row.rivalLimits.map((limit, index) => (
+                      <span key={conditions[index].rival.id} className={limit === 0 ? 'text-emerald-400' : 'text-gray-300'}>
+                        {limit === 0 ? 'cokoliv' : limit > rules.race.length ? 'mimo body' : `${limit}.`}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+              {rules.fastestLap > 0 && (
+                <p className="text-[11px] text-gray-500 mt-2">
+                  Počítá s tím, že bod za nejrychlejší kolo získá soupeř.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import {
+  getDriverCode,
+  useConstructorStandingsProgression,
+  useDriverStandingsProgression,
+  useRaceSchedule,
+  type Race,
+} from "@/services/f1Service";
+import { getTeamColor } from "@/lib/teamColors";
+import { hasRaceFinished } from "@/lib/championship";
+import { ChartLine } from "@phosphor-icons/react";
+
+interface ChampionshipProgressionProps {
+  season: string | undefined;
+  kind: "drivers" | "constructors";
+}
+
+// A championship entry reduced to what the chart needs
+interface ProgressionEntry {
+  id: string;
+  label: string;
+  color: string;
+  dashed: boolean;
+}
+
+interface ProgressionRound {
+  round: number;
+  // entry id -> points / championship position after the round
+  points: Map<string, number>;
+  positions: Map<string, number>;
+}
+
+type Metric = "points" | "position";
+
+export function ChampionshipProgression({ season, kind }: ChampionshipProgressionProps) {
+  const { schedule } = useRaceSchedule(season);
+  const rounds = useMemo(
+    () => schedule.filter(hasRaceFinished).map((race) => race.round),
+    [schedule]
+  );
+
+  return kind === "drivers"
+    ? <DriverProgression season={season} rounds={rounds} schedule={schedule} />
+    : <ConstructorProgression season={season} rounds={rounds} schedule={schedule} />;
+}
+
+function DriverProgression({ season, rounds, schedule }: { season: string | undefined; rounds: number[]; schedule: Race[] }) {
+  const progression = useDriverStandingsProgression(season, rounds);
+
+  const data = useMemo(() => {
+    const latest = progression.rounds[progression.rounds.length - 1]?.standings ?? [];
+    const seenTeams = new Set<string>();
+    const entries = latest.map((standing) => {
+      const constructor = standing.Constructors[standing.Constructors.length - 1];
+      // Teammates share a colour, so the second driver of a team is dashed
+      const dashed = !!constructor && seenTeams.has(constructor.constructorId);
+      if (constructor) seenTeams.add(constructor.constructorId);
+      return {
+        id: standing.Driver.driverId,
+        label: getDriverCode(standing.Driver),
+        color: getTeamColor(constructor),
+        dashed,
+      };
+    });
+    const perRound = progression.rounds.map(({ round, standings }) => ({
+      round,
+      points: new Map(standings.map((standing) => [standing.Driver.driverId, standing.points])),
+      positions: new Map(standings.map((standing) => [standing.Driver.driverId, standing.position])),
+    }));
+    return { entries, perRound };
+  }, [progression.rounds]);
+
+  return (
+    <ProgressionPanel
+      entries={data.entries}
+      rounds={data.perRound}
+      schedule={schedule}
+      expectedRounds={rounds.length}
+      loading={progression.loading}
+      error={progression.error}
+      defaultVisible={5}
+    />
+  );
+}
+
+function ConstructorProgression({ season, rounds, schedule }: { season: string | undefined; rounds: number[]; schedule: Race[] }) {
+  const progression = useConstructorStandingsProgression(season, rounds);
+
+  const data = useMemo(() => {
+    const latest = progression.rounds[progression.rounds.length - 1]?.standings ?? [];
+    const entries = latest.map((standing) => ({
+      id: standing.Constructor.constructorId,
+      label: standing.Constructor.name,
+      color: getTeamColor(standing.Constructor),
+      dashed: false,
+    }));
+    const perRound = progression.rounds.map(({ round, standings }) => ({
+      round,
+      points: new Map(standings.map((standing) => [standing.Constructor.constructorId, standing.points])),
+      positions: new Map(standings.map((standing) => [standing.Constructor.constructorId, standing.position])),
+    }));
+    return { entries, perRound };
+  }, [progression.rounds]);
+
+  return (
+    <ProgressionPanel
+      entries={data.entries}
+      rounds={data.perRound}
+      schedule={schedule}
+      expectedRounds={rounds.length}
+      loading={progression.loading}
+      error={progression.error}
+      defaultVisible={10}
+    />
+  );
+}
+
+function ProgressionPanel({ entries, rounds, schedule, expectedRounds, loading, error, defaultVisible }: {
+  entries: ProgressionEntry[];
+  rounds: ProgressionRound[];
+  schedule: Race[];
+  expectedRounds: number;
+  loading: boolean;
+  error: string | null;
+  defaultVisible: number;
+}) {
+  const [metric, setMetric] = useState<Metric>("points");
+  // null = the default selection (top of the current standings)
+  const [selected, setSelected] = useState<Set<string> | null>(null);
+
+  const visible = selected ?? new Set(entries.slice(0, defaultVisible).map((entry) => entry.id));
+  const shown = entries.filter((entry) => visible.has(entry.id));
+
+  const raceNames = new Map(schedule.map((race) => [race.round, race.raceName]));
+  const rows = rounds.map(({ round, points, positions }) => {
+    const source = metric === "points" ? points : positions;
+    return {
+      round,
+      ...Object.fromEntries(shown.map((entry) => [entry.id, source.get(entry.id)])),
+    };
+  });
+
+  const config: ChartConfig = Object.fromEntries(
+    entries.map((entry) => [entry.id, { label: entry.label, color: entry.color }])
+  );
+
+  const toggle = (id: string) => {
+    const next = new Set(visible);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  if (expectedRounds === 0) return null;
+
+  return (
+    <section className="mt-10 p-4 sm:p-6 rounded-2xl bg-white/[0.02] border border-white/5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <ChartLine className="w-5 h-5 text-f1-red" />
+          <h3 className="text-lg font-bold text-white">Vývoj šampionátu</h3>
+          {loading && (
+            <span className="text-[11px] text-gray-500">
+              načteno {rounds.length}/{expectedRounds} kol
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1.5">
+          {([["points", "Body"], ["position", "Pořadí"]] as const).map(([value, label]) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setMetric(value)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${metric === value
+                ? 'bg-white/10 border-white/20 text-white'
+                : 'border-white/5 text-gray-400 hover:bg-white/5'
+                }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+          <p className="text-red-400 text-sm">Nepodařilo se načíst vývoj šampionátu</p>
+        </div>
+      ) : rounds.length === 0 ? (
+        <div className="h-[360px] bg-white/5 rounded-xl animate-pulse" />
+      ) : (
+        <ChartContainer config={config} className="aspect-auto h-[360px] w-full">
+          <LineChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: metric === "points" ? -8 : -24 }}>
+            <CartesianGrid vertical={false} stroke="rgba(255,255,255,0.05)" />
+            <XAxis
+              dataKey="round"
+              tickLine={false}
+              axisLine={false}
+              tickMargin={8}
+              tickFormatter={(round) => `R${round}`}
+            />
+            <YAxis
+              reversed={metric === "position"}
+              domain={metric === "position" ? [1, "dataMax"] : [0, "auto"]}
+              allowDecimals={false}
+              tickLine={false}
+              axisLine={false}
+              fontSize={10}
+            />
+            <ChartTooltip
+              itemSorter={(item) => (metric === "points" ? -Number(item.value) : Number(item.value))}
+              content={
+                <ChartTooltipContent
+                  className="bg-[#151515] border-white/10"
+                  labelFormatter={(_, payload) => {
+                    const round = payload[0]?.payload.round;
+                    return `${round}. ${raceNames.get(round) ?? 'kolo'}`;
+                  }}
+                  formatter={(value, name, item) => (
+                    <div className="flex w-full items-center gap-2">
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: item.color }} />
+                      <span className="font-bold text-white">{config[name]?.label}</span>
+                      <span className="ml-auto tabular-nums text-gray-300">
+                        {metric === "points" ? `${value} b.` : `${value}.`}
+                      </span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            {shown.map((entry) => (
+              <Line
+                key={entry.id}
+                dataKey={entry.id}
+                name={entry.id}
+                type="monotone"
+                stroke={`var(--color-${entry.id})`}
+                strokeWidth={2}
+                strokeDasharray={entry.dashed ? "5 3" : undefined}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+      )}
+
+      {/* Which entries are plotted */}
+      {entries.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <div className="flex gap-3 text-[11px]">
+            <button type="button" onClick={() => setSelected(new Set(entries.slice(0, 5).map((entry) => entry.id)))} className="text-gray-400 hover:text-white">
+              Top 5
+            </button>
+            <button type="button" onClick={() => setSelected(new Set(entries.map((entry) => entry.id)))} className="text-gray-400 hover:text-white">
+              Vše
+            </button>
+            <button type="button" onClick={() => setSelected(new Set())} className="text-gray-400 hover:text-white">
+              Nic
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {entries.map((entry) => (
+              <button
+                key={entry.id}
+                type="button"
+                onClick={() => toggle(entry.id)}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[11px] font-bold border transition-all ${visible.has(entry.id)
+                  ? 'bg-white/10 border-white/20 text-white'
+                  : 'border-white/5 text-gray-600 hover:text-gray-300'
+                  }`}
+              >
+                <span className="w-2.5 h-0.5 rounded-full" style={{ backgroundColor: entry.color }} />
+                {entry.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
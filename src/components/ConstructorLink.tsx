@@ -0,0 +1,22 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { constructorPath } from "@/lib/routes";
+
+interface ConstructorLinkProps {
+  constructorId: string;
+  // Season the link was followed from, preselected on the team page
+  season?: string;
+  className?: string;
+  children: ReactNode;
+}
+
+export function ConstructorLink({ constructorId, season, className, children }: ConstructorLinkProps) {
+  return (
+    <Link
+      to={constructorPath(constructorId, season)}
+      className={`hover:text-f1-red transition-colors ${className ?? ''}`}
+    >
+      {children}
+    </Link>
+  );
+}
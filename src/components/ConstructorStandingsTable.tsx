@@ -1,26 +1,38 @@
-import { useConstructorStandings } from "@/services/f1Service";
-import { Trophy, Medal, Ranking, Flag } from "@phosphor-icons/react";
+import { useState } from "react";
+import { useConstructorStandings, type ConstructorStanding } from "@/services/f1Service";
+import { StaleDataIndicator } from "./StaleDataIndicator";
+import { ProvisionalNotice } from "./ProvisionalNotice";
+import { TitleBadge } from "./TitleBadge";
+import { ForecastControls, TitleOdds } from "./TitleForecast";
+import { useChampionshipMath } from "@/hooks/use-championship-math";
+import { useForecast } from "@/hooks/use-forecast";
+import type { TitleOutlook } from "@/lib/championship";
+import type { EntryForecast } from "@/lib/forecast";
+import { getTeamColor } from "@/lib/teamColors";
+import { ConstructorLink } from "./ConstructorLink";
+import { TeammateBattlePanel } from "./TeammateBattlePanel";
+import { RescoredStandings, RescoreToggle } from "./RescoredStandings";
+import { Trophy, Medal, Ranking, Flag, UsersThree } from "@phosphor-icons/react";
 
 const nationalityFlags: { [key: string]: string } = {
   "British": "GB", "Italian": "IT", "German": "DE", "French": "FR",
   "Austrian": "AT", "Swiss": "CH", "American": "US", "Japanese": "JP",
 };
 
-const teamColors: { [key: string]: string } = {
-  "Red Bull": "#3671C6",
-  "Ferrari": "#E8002D",
-  "Mercedes": "#27F4D2",
-  "McLaren": "#FF8000",
-  "Aston Martin": "#229971",
-  "Alpine F1 Team": "#FF87BC",
-  "Williams": "#64C4FF",
-  "RB F1 Team": "#6692FF",
-  "Sauber": "#52E252",
-  "Haas F1 Team": "#B6BABD",
-};
+interface ConstructorStandingsTableProps {
+  season: string | undefined;
+}
 
-export function ConstructorStandingsTable() {
-  const { standings, loading, error } = useConstructorStandings();
+export function ConstructorStandingsTable({ season }: ConstructorStandingsTableProps) {
+  const { standings, loading, error, updatedAt, refreshFailed, provisional } = useConstructorStandings(season);
+  const titleMath = useChampionshipMath(season, "constructors");
+  const forecast = useForecast(season);
+  // Team whose teammate battle is unfolded; one at a time keeps requests down
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const toggle = (constructorId: string) =>
+    setExpandedId((current) => (current === constructorId ? null : constructorId));
+  // Rescored mode swaps the official table for one under another points system
+  const [rescored, setRescored] = useState(false);
 
   if (loading) {
     return (
@@ -41,32 +53,79 @@ export function ConstructorStandingsTable() {
     );
   }
 
-  const maxPoints = standings.length > 0 ? Math.max(...standings.map(s => parseFloat(s.points))) : 1;
+  const maxPoints = standings.length > 0 ? Math.max(...standings.map(s => s.points)) : 1;
+  const odds = new Map((forecast.result?.constructors ?? []).map((entry) => [entry.id, entry]));
+  const expandedPodium = standings.slice(0, 3).find((standing) => standing.Constructor.constructorId === expandedId);
 
   return (
     <div className="space-y-3">
-      {/* Top 3 Podium Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
-        {standings.slice(0, 3).map((standing, index) => (
-          <TeamPodiumCard
-            key={standing.position}
-            standing={standing}
-            position={index + 1}
-            maxPoints={maxPoints}
-          />
-        ))}
-      </div>
+      <StaleDataIndicator updatedAt={updatedAt} refreshFailed={refreshFailed} className="mb-3" />
 
-      {/* Rest of standings */}
-      <div className="space-y-2">
-        {standings.slice(3).map((standing) => (
-          <TeamRow
-            key={standing.position}
-            standing={standing}
-            maxPoints={maxPoints}
-          />
-        ))}
-      </div>
+      {standings.length > 0 && (
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {provisional && !rescored && <ProvisionalNotice className="mr-auto" />}
+          <RescoreToggle active={rescored} onToggle={() => setRescored(!rescored)} />
+        </div>
+      )}
+
+      {rescored ? (
+        <RescoredStandings season={season} kind="constructors" />
+      ) : (
+        <>
+          {forecast.available && (
+            <ForecastControls
+              result={forecast.result}
+              running={forecast.running}
+              error={forecast.error}
+              seed={forecast.seed}
+              onSeedChange={forecast.setSeed}
+            />
+          )}
+
+          {/* Top 3 Podium Cards */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+            {standings.slice(0, 3).map((standing, index) => (
+              <TeamPodiumCard
+                key={standing.Constructor.constructorId}
+                standing={standing}
+                position={index + 1}
+                maxPoints={maxPoints}
+                season={season}
+                outlook={titleMath?.outlook.get(standing.Constructor.constructorId)}
+                forecast={odds.get(standing.Constructor.constructorId)}
+                expanded={expandedId === standing.Constructor.constructorId}
+                onToggle={() => toggle(standing.Constructor.constructorId)}
+              />
+            ))}
+          </div>
+
+          {expandedPodium && (
+            <div className="mb-6">
+              <TeammateBattlePanel season={season} constructor={expandedPodium.Constructor} />
+            </div>
+          )}
+
+          {/* Rest of standings */}
+          <div className="space-y-2">
+            {standings.slice(3).map((standing) => (
+              <div key={standing.Constructor.constructorId} className="space-y-2">
+                <TeamRow
+                  standing={standing}
+                  maxPoints={maxPoints}
+                  season={season}
+                  outlook={titleMath?.outlook.get(standing.Constructor.constructorId)}
+                  forecast={odds.get(standing.Constructor.constructorId)}
+                  expanded={expandedId === standing.Constructor.constructorId}
+                  onToggle={() => toggle(standing.Constructor.constructorId)}
+                />
+                {expandedId === standing.Constructor.constructorId && (
+                  <TeammateBattlePanel season={season} constructor={standing.Constructor} />
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
 
       {standings.length === 0 && (
         <div className="text-center py-12 text-gray-500">
@@ -81,14 +140,24 @@ function TeamPodiumCard({
   standing,
   position,
   maxPoints,
+  season,
+  outlook,
+  forecast,
+  expanded,
+  onToggle,
 }: {
-  standing: any;
+  standing: ConstructorStanding;
   position: number;
   maxPoints: number;
+  season: string | undefined;
+  outlook: TitleOutlook | undefined;
+  forecast: EntryForecast | undefined;
+  expanded: boolean;
+  onToggle: () => void;
 }) {
   const flagCode = nationalityFlags[standing.Constructor.nationality] || "UN";
-  const pointsPercentage = (parseFloat(standing.points) / maxPoints) * 100;
-  const teamColor = teamColors[standing.Constructor.name] || "#E10600";
+  const pointsPercentage = (standing.points / maxPoints) * 100;
+  const teamColor = getTeamColor(standing.Constructor);
 
   const positionStyles = {
     1: {
@@ -145,9 +214,14 @@ function TeamPodiumCard({
       {/* Team info */}
       <div className="mb-4 pl-2">
         <h3 className="text-white font-bold text-lg leading-tight mb-1">
-          {standing.Constructor.name}
+          <ConstructorLink constructorId={standing.Constructor.constructorId} season={season}>
+            {standing.Constructor.name}
+          </ConstructorLink>
         </h3>
-        <p className="text-gray-500 text-sm">{standing.Constructor.nationality}</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-gray-500 text-sm">{standing.Constructor.nationality}</p>
+          <TitleBadge outlook={outlook} />
+        </div>
       </div>
 
       {/* Points and Wins */}
@@ -159,9 +233,12 @@ function TeamPodiumCard({
             </span>
             <span className="text-gray-500 text-sm">bodů</span>
           </div>
-          <div className="flex items-center gap-1.5 px-2.5 py-1 bg-white/10 rounded-lg border border-white/10">
-            <Trophy className="w-3.5 h-3.5 text-f1-red" />
-            <span className="text-white font-bold text-sm">{standing.wins}</span>
+          <div className="flex items-center gap-2">
+            <TeammateToggle expanded={expanded} onToggle={onToggle} />
+            <div className="flex items-center gap-1.5 px-2.5 py-1 bg-white/10 rounded-lg border border-white/10">
+              <Trophy className="w-3.5 h-3.5 text-f1-red" />
+              <span className="text-white font-bold text-sm">{standing.wins}</span>
+            </div>
           </div>
         </div>
         {/* Progress bar with team color */}
@@ -175,6 +252,7 @@ function TeamPodiumCard({
             }}
           />
         </div>
+        <TitleOdds forecast={forecast} color={teamColor} className="mt-3" />
       </div>
 
       {/* Decorative number */}
@@ -188,13 +266,23 @@ function TeamPodiumCard({
 function TeamRow({
   standing,
   maxPoints,
+  season,
+  outlook,
+  forecast,
+  expanded,
+  onToggle,
 }: {
-  standing: any;
+  standing: ConstructorStanding;
   maxPoints: number;
+  season: string | undefined;
+  outlook: TitleOutlook | undefined;
+  forecast: EntryForecast | undefined;
+  expanded: boolean;
+  onToggle: () => void;
 }) {
   const flagCode = nationalityFlags[standing.Constructor.nationality] || "UN";
-  const pointsPercentage = (parseFloat(standing.points) / maxPoints) * 100;
-  const teamColor = teamColors[standing.Constructor.name] || "#E10600";
+  const pointsPercentage = (standing.points / maxPoints) * 100;
+  const teamColor = getTeamColor(standing.Constructor);
 
   return (
     <div className="group relative flex items-center gap-4 p-4 rounded-xl bg-gradient-to-r from-white/[0.03] to-transparent hover:from-white/[0.06] border border-white/5 hover:border-white/10 transition-all overflow-hidden">
@@ -206,7 +294,7 @@ function TeamRow({
 
       {/* Position */}
       <div className="w-8 text-center pl-2">
-        <span className="text-lg font-black text-gray-500">{standing.position}</span>
+        <span className="text-lg font-black text-gray-500">{standing.position ?? standing.positionText}</span>
       </div>
 
       {/* Flag */}
@@ -219,10 +307,18 @@ function TeamRow({
 
       {/* Team info */}
       <div className="flex-1 min-w-0">
-        <span className="text-white font-bold text-sm">{standing.Constructor.name}</span>
-        <p className="text-gray-600 text-xs mt-0.5">{standing.Constructor.nationality}</p>
+        <ConstructorLink constructorId={standing.Constructor.constructorId} season={season} className="text-white font-bold text-sm">
+          {standing.Constructor.name}
+        </ConstructorLink>
+        <div className="flex items-center gap-2 mt-0.5">
+          <p className="text-gray-600 text-xs">{standing.Constructor.nationality}</p>
+          <TitleBadge outlook={outlook} />
+        </div>
+        <TitleOdds forecast={forecast} color={teamColor} className="mt-1.5" />
       </div>
 
+      <TeammateToggle expanded={expanded} onToggle={onToggle} />
+
       {/* Wins badge */}
       <div className="flex items-center gap-1 px-2 py-1 bg-white/5 rounded-lg border border-white/10">
         <Trophy className="w-3 h-3 text-gray-500" />
@@ -246,3 +342,17 @@ function TeamRow({
     </div>
   );
 }
+
+function TeammateToggle({ expanded, onToggle }: { expanded: boolean; onToggle: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-expanded={expanded}
+      title="Souboj týmových kolegů"
+      className={`relative z-10 p-1.5 rounded-lg border transition-all ${expanded ? 'bg-white/10 border-white/20 text-white' : 'border-white/10 text-gray-400 hover:bg-white/5 hover:text-white'}`}
+    >
+      <UsersThree className="w-3.5 h-3.5" />
+    </button>
+  );
+}
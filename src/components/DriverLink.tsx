@@ -0,0 +1,23 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { driverPath } from "@/lib/routes";
+
+interface DriverLinkProps {
+  driverId: string;
+  // Season the link was followed from, preselected on the profile
+  season?: string;
+  className?: string;
+  children: ReactNode;
+}
+
+// Every driver name in the app leads to the driver's profile
+export function DriverLink({ driverId, season, className, children }: DriverLinkProps) {
+  return (
+    <Link
+      to={driverPath(driverId, season)}
+      className={`hover:text-f1-red transition-colors ${className ?? ''}`}
+    >
+      {children}
+    </Link>
+  );
+}
@@ -1,5 +1,17 @@
-import { useDriverStandings } from "@/services/f1Service";
+import { useState } from "react";
+import { getDriverCode, useDriverStandings, type DriverStanding } from "@/services/f1Service";
+import { StaleDataIndicator } from "./StaleDataIndicator";
+import { ProvisionalNotice } from "./ProvisionalNotice";
+import { TitleBadge } from "./TitleBadge";
+import { ForecastControls, TitleOdds } from "./TitleForecast";
+import { useChampionshipMath } from "@/hooks/use-championship-math";
+import { useForecast } from "@/hooks/use-forecast";
+import type { TitleOutlook } from "@/lib/championship";
+import type { EntryForecast } from "@/lib/forecast";
+import { getTeamColor } from "@/lib/teamColors";
 import { SkeletonCard } from "./SkeletonCard";
+import { DriverLink } from "./DriverLink";
+import { RescoredStandings, RescoreToggle } from "./RescoredStandings";
 import { Trophy, Medal, Ranking } from "@phosphor-icons/react";
 
 const nationalityFlags: { [key: string]: string } = {
@@ -11,8 +23,16 @@ const nationalityFlags: { [key: string]: string } = {
   "Russian": "RU", "Polish": "PL", "New Zealander": "NZ", "Argentine": "AR",
 };
 
-export function DriverStandingsTable() {
-  const { standings, loading, error } = useDriverStandings();
+interface DriverStandingsTableProps {
+  season: string | undefined;
+}
+
+export function DriverStandingsTable({ season }: DriverStandingsTableProps) {
+  const { standings, loading, error, updatedAt, refreshFailed, provisional } = useDriverStandings(season);
+  const titleMath = useChampionshipMath(season, "drivers");
+  const forecast = useForecast(season);
+  // Rescored mode swaps the official table for one under another points system
+  const [rescored, setRescored] = useState(false);
 
   if (loading) {
     return (
@@ -33,32 +53,64 @@ export function DriverStandingsTable() {
     );
   }
 
-  const maxPoints = standings.length > 0 ? Math.max(...standings.map(s => parseFloat(s.points))) : 1;
+  const maxPoints = standings.length > 0 ? Math.max(...standings.map(s => s.points)) : 1;
+  const odds = new Map((forecast.result?.drivers ?? []).map((entry) => [entry.id, entry]));
 
   return (
     <div className="space-y-3">
-      {/* Top 3 Podium Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
-        {standings.slice(0, 3).map((standing, index) => (
-          <PodiumCard
-            key={standing.position}
-            standing={standing}
-            position={index + 1}
-            maxPoints={maxPoints}
-          />
-        ))}
-      </div>
+      <StaleDataIndicator updatedAt={updatedAt} refreshFailed={refreshFailed} className="mb-3" />
 
-      {/* Rest of standings */}
-      <div className="space-y-2">
-        {standings.slice(3).map((standing) => (
-          <DriverRow
-            key={standing.position}
-            standing={standing}
-            maxPoints={maxPoints}
-          />
-        ))}
-      </div>
+      {standings.length > 0 && (
+        <div className="flex flex-wrap items-center justify-end gap-2">
+          {provisional && !rescored && <ProvisionalNotice className="mr-auto" />}
+          <RescoreToggle active={rescored} onToggle={() => setRescored(!rescored)} />
+        </div>
+      )}
+
+      {rescored ? (
+        <RescoredStandings season={season} kind="drivers" />
+      ) : (
+        <>
+          {forecast.available && (
+            <ForecastControls
+              result={forecast.result}
+              running={forecast.running}
+              error={forecast.error}
+              seed={forecast.seed}
+              onSeedChange={forecast.setSeed}
+            />
+          )}
+
+          {/* Top 3 Podium Cards */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+            {standings.slice(0, 3).map((standing, index) => (
+              <PodiumCard
+                key={standing.Driver.driverId}
+                standing={standing}
+                position={index + 1}
+                maxPoints={maxPoints}
+                season={season}
+                outlook={titleMath?.outlook.get(standing.Driver.driverId)}
+                forecast={odds.get(standing.Driver.driverId)}
+              />
+            ))}
+          </div>
+
+          {/* Rest of standings */}
+          <div className="space-y-2">
+            {standings.slice(3).map((standing) => (
+              <DriverRow
+                key={standing.Driver.driverId}
+                standing={standing}
+                maxPoints={maxPoints}
+                season={season}
+                outlook={titleMath?.outlook.get(standing.Driver.driverId)}
+                forecast={odds.get(standing.Driver.driverId)}
+              />
+            ))}
+          </div>
+        </>
+      )}
 
       {standings.length === 0 && (
         <div className="text-center py-12 text-gray-500">
@@ -73,13 +125,19 @@ function PodiumCard({
   standing,
   position,
   maxPoints,
+  season,
+  outlook,
+  forecast,
 }: {
-  standing: any;
+  standing: DriverStanding;
   position: number;
   maxPoints: number;
+  season: string | undefined;
+  outlook: TitleOutlook | undefined;
+  forecast: EntryForecast | undefined;
 }) {
   const flagCode = nationalityFlags[standing.Driver.nationality] || "UN";
-  const pointsPercentage = (parseFloat(standing.points) / maxPoints) * 100;
+  const pointsPercentage = (standing.points / maxPoints) * 100;
 
   const positionStyles = {
     1: {
@@ -131,13 +189,18 @@ function PodiumCard({
       <div className="mb-4">
         <div className="flex items-center gap-2 mb-1">
           <span className="px-2 py-0.5 text-xs font-bold bg-white/10 rounded-md text-white border border-white/10">
-            {standing.Driver.code}
+            {getDriverCode(standing.Driver)}
           </span>
         </div>
         <h3 className="text-white font-bold text-lg leading-tight">
-          {standing.Driver.givenName} <span className="text-white">{standing.Driver.familyName}</span>
+          <DriverLink driverId={standing.Driver.driverId} season={season}>
+            {standing.Driver.givenName} <span className="text-white">{standing.Driver.familyName}</span>
+          </DriverLink>
         </h3>
-        <p className="text-gray-500 text-sm">{standing.Constructors[0]?.name || 'N/A'}</p>
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-gray-500 text-sm">{standing.Constructors[0]?.name || 'N/A'}</p>
+          <TitleBadge outlook={outlook} />
+        </div>
       </div>
 
       {/* Points */}
@@ -156,6 +219,7 @@ function PodiumCard({
             style={{ width: `${pointsPercentage}%` }}
           />
         </div>
+        <TitleOdds forecast={forecast} color={getTeamColor(standing.Constructors[0])} className="mt-3" />
       </div>
 
       {/* Decorative number */}
@@ -169,18 +233,24 @@ function PodiumCard({
 function DriverRow({
   standing,
   maxPoints,
+  season,
+  outlook,
+  forecast,
 }: {
-  standing: any;
+  standing: DriverStanding;
   maxPoints: number;
+  season: string | undefined;
+  outlook: TitleOutlook | undefined;
+  forecast: EntryForecast | undefined;
 }) {
   const flagCode = nationalityFlags[standing.Driver.nationality] || "UN";
-  const pointsPercentage = (parseFloat(standing.points) / maxPoints) * 100;
+  const pointsPercentage = (standing.points / maxPoints) * 100;
 
   return (
     <div className="group flex items-center gap-4 p-4 rounded-xl bg-gradient-to-r from-white/[0.03] to-transparent hover:from-white/[0.06] border border-white/5 hover:border-white/10 transition-all">
       {/* Position */}
       <div className="w-8 text-center">
-        <span className="text-lg font-black text-gray-500">{standing.position}</span>
+        <span className="text-lg font-black text-gray-500">{standing.position ?? standing.positionText}</span>
       </div>
 
       {/* Flag */}
@@ -195,12 +265,18 @@ function DriverRow({
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2">
           <span className="px-1.5 py-0.5 text-[10px] font-bold bg-white/10 rounded text-white/80 border border-white/10">
-            {standing.Driver.code}
+            {getDriverCode(standing.Driver)}
           </span>
-          <span className="text-gray-400 text-sm">{standing.Driver.givenName}</span>
-          <span className="text-white font-bold text-sm">{standing.Driver.familyName}</span>
+          <DriverLink driverId={standing.Driver.driverId} season={season} className="flex items-center gap-2">
+            <span className="text-gray-400 text-sm">{standing.Driver.givenName}</span>
+            <span className="text-white font-bold text-sm">{standing.Driver.familyName}</span>
+          </DriverLink>
+        </div>
+        <div className="flex items-center gap-2 mt-0.5 min-w-0">
+          <p className="text-gray-600 text-xs truncate">{standing.Constructors[0]?.name || 'N/A'}</p>
+          <TitleBadge outlook={outlook} />
         </div>
-        <p className="text-gray-600 text-xs mt-0.5 truncate">{standing.Constructors[0]?.name || 'N/A'}</p>
+        <TitleOdds forecast={forecast} color={getTeamColor(standing.Constructors[0])} className="mt-1.5" />
       </div>
 
       {/* Points section */}
@@ -0,0 +1,188 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { getDriverCode, type Lap, type PitStop, type RaceResult } from "@/services/f1Service";
+import { getTeamColor } from "@/lib/teamColors";
+import { Wrench } from "@phosphor-icons/react";
+
+interface LapPositionChartProps {
+  results: RaceResult[];
+  laps: Lap[];
+  pitStops: PitStop[];
+}
+
+// One row per lap: driverId -> position, plus the drivers who pitted that lap.
+// Lap 0 is the starting grid.
+type LapRow = { lap: number; pitted: string[] } & Record<string, number | string[]>;
+
+function buildRows(results: RaceResult[], laps: Lap[], pitStops: PitStop[]): LapRow[] {
+  const pittedOn = (lap: number) =>
+    pitStops.filter((stop) => stop.lap === lap).map((stop) => stop.driverId);
+
+  // Pit lane starters (grid 0) line up behind the rest of the field
+  const grid: LapRow = { lap: 0, pitted: [] };
+  results.forEach((result) => {
+    grid[result.Driver.driverId] = result.grid > 0 ? result.grid : results.length;
+  });
+
+  const rows = laps.map((lap) => {
+    const row: LapRow = { lap: lap.number, pitted: pittedOn(lap.number) };
+    lap.Timings.forEach((timing) => {
+      row[timing.driverId] = timing.position;
+    });
+    return row;
+  });
+
+  return [grid, ...rows];
+}
+
+export function LapPositionChart({ results, laps, pitStops }: LapPositionChartProps) {
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  const rows = useMemo(() => buildRows(results, laps, pitStops), [results, laps, pitStops]);
+  const drivers = useMemo(() => [...results].sort((a, b) => a.position - b.position), [results]);
+
+  // Teammates share a colour, so the second car of each team gets a dashed line
+  const dashed = new Set(
+    drivers
+      .filter((result, index) =>
+        drivers.findIndex((other) => other.Constructor.constructorId === result.Constructor.constructorId) !== index
+      )
+      .map((result) => result.Driver.driverId)
+  );
+
+  const config: ChartConfig = Object.fromEntries(
+    drivers.map((result) => [
+      result.Driver.driverId,
+      { label: getDriverCode(result.Driver), color: getTeamColor(result.Constructor) },
+    ])
+  );
+
+  const toggle = (driverId: string) =>
+    setHighlighted((current) => (current === driverId ? null : driverId));
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer config={config} className="aspect-auto h-[420px] w-full">
+        <LineChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+          <CartesianGrid vertical={false} stroke="rgba(255,255,255,0.05)" />
+          <XAxis dataKey="lap" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+          <YAxis
+            reversed
+            domain={[1, drivers.length]}
+            ticks={drivers.map((_, index) => index + 1)}
+            interval={0}
+            tickLine={false}
+            axisLine={false}
+            fontSize={10}
+          />
+          <ChartTooltip
+            itemSorter={(item) => Number(item.value)}
+            content={
+              <ChartTooltipContent
+                className="bg-[#151515] border-white/10"
+                labelFormatter={(_, payload) => {
+                  const lap = payload[0]?.payload.lap;
+                  return lap === 0 ? "Start" : `${lap}. kolo`;
+                }}
+                formatter={(value, name, item) => (
+                  <div className="flex w-full items-center gap-2">
+                    <span className="w-5 text-right tabular-nums text-gray-500">{value}</span>
+                    <span className="h-2 w-2 rounded-full" style={{ backgroundColor: item.color }} />
+                    <span className="font-bold text-white">{config[name]?.label}</span>
+                    {(item.payload.pitted as string[]).includes(String(name)) && (
+                      <span className="ml-auto flex items-center gap-0.5 text-[10px] font-bold text-amber-400">
+                        <Wrench className="w-3 h-3" />
+                        BOX
+                      </span>
+                    )}
+                  </div>
+                )}
+              />
+            }
+          />
+          {drivers.map((result) => {
+            const driverId = result.Driver.driverId;
+            const faded = highlighted !== null && highlighted !== driverId;
+            return (
+              <Line
+                key={driverId}
+                dataKey={driverId}
+                name={driverId}
+                type="linear"
+                stroke={`var(--color-${driverId})`}
+                strokeWidth={highlighted === driverId ? 3 : 1.75}
+                strokeOpacity={faded ? 0.12 : 1}
+                strokeDasharray={dashed.has(driverId) ? "5 3" : undefined}
+                isAnimationActive={false}
+                activeDot={faded ? false : { r: 3 }}
+                dot={(props) => (
+                  <PitDot
+                    key={`${driverId}-${props.index}`}
+                    {...props}
+                    driverId={driverId}
+                    faded={faded}
+                  />
+                )}
+              />
+            );
+          })}
+        </LineChart>
+      </ChartContainer>
+
+      {/* Legend doubles as a picker to bring one driver to the front */}
+      <div className="flex flex-wrap gap-1.5">
+        {drivers.map((result) => {
+          const driverId = result.Driver.driverId;
+          return (
+            <button
+              key={driverId}
+              type="button"
+              onClick={() => toggle(driverId)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-[11px] font-bold border transition-all ${highlighted === driverId
+                ? 'bg-white/15 border-white/30 text-white'
+                : highlighted
+                  ? 'border-white/5 text-gray-600'
+                  : 'border-white/10 text-gray-300 hover:bg-white/10'
+                }`}
+            >
+              <span className="w-2.5 h-0.5 rounded-full" style={{ backgroundColor: getTeamColor(result.Constructor) }} />
+              {getDriverCode(result.Driver)}
+            </button>
+          );
+        })}
+      </div>
+
+      {pitStops.length > 0 && (
+        <p className="flex items-center gap-1.5 text-[11px] text-gray-500">
+          <span className="w-2 h-2 rounded-full border-2 border-amber-400" />
+          Kolo se zastávkou v boxech
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Marks the laps a driver came into the pits; every other point stays hidden
+function PitDot({ cx, cy, payload, driverId, faded }: {
+  cx?: number;
+  cy?: number;
+  payload?: LapRow;
+  driverId: string;
+  faded: boolean;
+}) {
+  if (cx === undefined || cy === undefined || !payload?.pitted.includes(driverId)) {
+    return <g />;
+  }
+
+  return (
+    <circle
+      cx={cx}
+      cy={cy}
+      r={3.5}
+      fill="#0a0a0a"
+      stroke="#fbbf24"
+      strokeWidth={2}
+      opacity={faded ? 0.15 : 1}
+    />
+  );
+}
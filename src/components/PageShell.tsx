@@ -0,0 +1,54 @@
+import type { ReactNode } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { ArrowLeft } from "@phosphor-icons/react";
+
+interface PageShellProps {
+  children: ReactNode;
+  // Shown next to the logo, e.g. the driver's name
+  title?: string;
+}
+
+// Frame for the pages below the season overview: same backdrop and header
+// style as the overview, with a way back instead of the section navigation
+export function PageShell({ children, title }: PageShellProps) {
+  const navigate = useNavigate();
+  const location = useLocation();
+  // "default" is the entry the app was opened on, so there is nothing to go back to
+  const canGoBack = location.key !== "default";
+
+  return (
+    <div className="min-h-screen text-white relative flex flex-col">
+      <div className="fixed inset-0 bg-gradient-to-b from-[#0a0a0a] via-[#0f0f0f] to-[#0a0a0a] pointer-events-none" />
+      <div className="fixed inset-0 noise-overlay pointer-events-none" />
+
+      <header className="sticky top-0 z-30 backdrop-blur-2xl bg-black/80 border-b border-white/5">
+        <div className="container mx-auto">
+          <div className="flex items-center gap-3 py-4 px-4 sm:px-6">
+            <button
+              type="button"
+              onClick={() => (canGoBack ? navigate(-1) : navigate("/"))}
+              aria-label="Zpět"
+              className="rounded-xl p-2 bg-white/5 text-gray-400 hover:text-white hover:bg-white/10 transition-all border border-white/10"
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </button>
+            <Link to="/" className="flex items-center gap-3 min-w-0">
+              <img src="/logo26.png" alt="Logo" width={32} height={32} className="rounded-xl flex-shrink-0" />
+              <span className="hidden sm:block text-lg font-bold text-white leading-none">
+                f1<span className="text-f1-red">.</span>stvr<span className="text-f1-red">.</span>cz
+              </span>
+            </Link>
+            {title && (
+              <span className="text-sm text-gray-500 truncate">/ {title}</span>
+            )}
+          </div>
+        </div>
+        <div className="h-px bg-gradient-to-r from-transparent via-f1-red/50 to-transparent" />
+      </header>
+
+      <main className="relative z-10 flex-1 container mx-auto px-4 sm:px-6 py-6 sm:py-8">
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { getDriverCode, type Constructor, type PitStop, type RaceResult } from "@/services/f1Service";
+import { formatLapTime, parseLapTime } from "@/lib/lapTime";
+import { getTeamColor } from "@/lib/teamColors";
+import { DriverLink } from "@/components/DriverLink";
+import { Lightning, Hourglass } from "@phosphor-icons/react";
+
+interface PitStopStrategyProps {
+  results: RaceResult[];
+  pitStops: PitStop[];
+  // Season of the race, carried into driver profile links
+  season?: string;
+}
+
+// Anything longer is a car parked in the pit lane under a red flag, not a stop
+const RED_FLAG_THRESHOLD_MS = 2 * 60 * 1000;
+
+interface TimedStop extends PitStop {
+  durationMs: number;
+  result: RaceResult | undefined;
+}
+
+interface Stint {
+  from: number;
+  to: number;
+}
+
+// Laps run between stops; the last stint ends where the driver's race did
+function getStints(stops: PitStop[], lapsCompleted: number): Stint[] {
+  const stints: Stint[] = [];
+  let from = 1;
+  for (const stop of stops) {
+    stints.push({ from, to: stop.lap });
+    from = stop.lap + 1;
+  }
+  if (from <= lapsCompleted) stints.push({ from, to: lapsCompleted });
+  return stints;
+}
+
+function getTeamAverages(stops: TimedStop[]) {
+  const teams = new Map<string, { constructor: Constructor; durations: number[] }>();
+  for (const stop of stops) {
+    if (!stop.result) continue;
+    const { constructorId } = stop.result.Constructor;
+    const team = teams.get(constructorId) ?? { constructor: stop.result.Constructor, durations: [] };
+    team.durations.push(stop.durationMs);
+    teams.set(constructorId, team);
+  }
+
+  return [...teams.values()]
+    .map(({ constructor, durations }) => ({
+      constructor,
+      stops: durations.length,
+      average: durations.reduce((sum, duration) => sum + duration, 0) / durations.length,
+      best: Math.min(...durations),
+    }))
+    .sort((a, b) => a.average - b.average);
+}
+
+export function PitStopStrategy({ results, pitStops, season }: PitStopStrategyProps) {
+  const drivers = [...results].sort((a, b) => a.position - b.position);
+  const raceLaps = Math.max(1, ...results.map((result) => result.laps));
+  const resultsByDriver = new Map(results.map((result) => [result.Driver.driverId, result]));
+
+  const timed: TimedStop[] = pitStops
+    .map((stop) => ({
+      ...stop,
+      durationMs: parseLapTime(stop.duration),
+      result: resultsByDriver.get(stop.driverId),
+    }))
+    .filter((stop) => stop.durationMs !== null && stop.durationMs < RED_FLAG_THRESHOLD_MS)
+    .sort((a, b) => a.durationMs - b.durationMs);
+
+  const fastest = timed.slice(0, 3);
+  const slowest = timed.slice(-3).reverse().filter((stop) => !fastest.includes(stop));
+  const teamAverages = getTeamAverages(timed);
+
+  return (
+    <div className="space-y-6">
+      {/* Stint timeline */}
+      <section>
+        <div className="flex items-center justify-between mb-2 px-1">
+          <h4 className="text-sm font-bold text-white">Stinty</h4>
+          <span className="text-[11px] text-gray-500">{raceLaps} kol</span>
+        </div>
+        <div className="space-y-1">
+          {drivers.map((result) => {
+            const stops = pitStops
+              .filter((stop) => stop.driverId === result.Driver.driverId)
+              .sort((a, b) => a.stop - b.stop);
+            return (
+              <StintBar
+                key={result.Driver.driverId}
+                result={result}
+                stints={getStints(stops, result.laps)}
+                raceLaps={raceLaps}
+              />
+            );
+          })}
+        </div>
+      </section>
+
+      {/* Fastest and slowest stops */}
+      {timed.length > 0 && (
+        <div className="grid sm:grid-cols-2 gap-3">
+          <StopList title="Nejrychlejší zastávky" icon={Lightning} accent="text-emerald-400" stops={fastest} season={season} />
+          <StopList title="Nejpomalejší zastávky" icon={Hourglass} accent="text-red-400" stops={slowest} season={season} />
+        </div>
+      )}
+
+      {/* Per-team averages */}
+      {teamAverages.length > 0 && (
+        <section>
+          <h4 className="text-sm font-bold text-white mb-2 px-1">Průměr týmů</h4>
+          <div className="grid grid-cols-[1fr_3rem_4.5rem_4.5rem] items-center gap-2 px-3 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-600">
+            <span>Tým</span>
+            <span className="text-center">Počet</span>
+            <span className="text-right">Průměr</span>
+            <span className="text-right">Nejlepší</span>
+          </div>
+          <div className="space-y-1.5">
+            {teamAverages.map((team) => (
+              <div
+                key={team.constructor.constructorId}
+                className="grid grid-cols-[1fr_3rem_4.5rem_4.5rem] items-center gap-2 p-3 rounded-xl bg-white/[0.02] border border-white/5"
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="w-1 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: getTeamColor(team.constructor) }} />
+                  <span className="text-sm font-bold text-white truncate">{team.constructor.name}</span>
+                </span>
+                <span className="text-center text-sm text-gray-400 tabular-nums">{team.stops}</span>
+                <span className="text-right text-sm font-semibold text-white tabular-nums">{formatLapTime(team.average)}</span>
+                <span className="text-right text-sm text-gray-400 tabular-nums">{formatLapTime(team.best)}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <p className="text-[11px] text-gray-500 px-1">
+        Časy zastávek jsou měřeny od vjezdu do boxové uličky po výjezd, nejde jen o čas stání.
+      </p>
+    </div>
+  );
+}
+
+function StintBar({ result, stints, raceLaps }: {
+  result: RaceResult;
+  stints: Stint[];
+  raceLaps: number;
+}) {
+  const color = getTeamColor(result.Constructor);
+
+  return (
+    <div className="grid grid-cols-[2.75rem_1fr_1.5rem] items-center gap-2">
+      <span className="text-[11px] font-bold text-gray-300">{getDriverCode(result.Driver)}</span>
+      <div className="relative h-4 rounded bg-white/[0.03]">
+        {stints.map((stint, index) => (
+          <div
+            key={stint.from}
+            title={`${index + 1}. stint: kola ${stint.from}–${stint.to} (${stint.to - stint.from + 1})`}
+            className="absolute top-0 h-full rounded-sm border-r-2 border-[#0a0a0a]"
+            style={{
+              left: `${((stint.from - 1) / raceLaps) * 100}%`,
+              width: `${((stint.to - stint.from + 1) / raceLaps) * 100}%`,
+              backgroundColor: color,
+              opacity: index % 2 === 0 ? 0.85 : 0.45,
+            }}
+          />
+        ))}
+      </div>
+      <span className="text-[11px] text-right text-gray-500 tabular-nums" title="Počet zastávek">
+        {Math.max(0, stints.length - 1)}
+      </span>
+    </div>
+  );
+}
+
+function StopList({ title, icon: Icon, accent, stops, season }: {
+  title: string;
+  icon: typeof Lightning;
+  accent: string;
+  stops: TimedStop[];
+  season?: string;
+}) {
+  return (
+    <section className="p-4 rounded-xl bg-white/[0.02] border border-white/5">
+      <div className="flex items-center gap-2 mb-3">
+        <Icon className={`w-4 h-4 ${accent}`} />
+        <h4 className="text-sm font-bold text-white">{title}</h4>
+      </div>
+      <div className="space-y-2">
+        {stops.map((stop) => (
+          <div key={`${stop.driverId}-${stop.stop}`} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-bold text-white truncate">
+                <DriverLink driverId={stop.driverId} season={season}>
+                  {stop.result ? stop.result.Driver.familyName : stop.driverId}
+                </DriverLink>
+              </p>
+              <p className="text-[11px] text-gray-500">{stop.lap}. kolo · {stop.stop}. zastávka</p>
+            </div>
+            <span className={`text-sm font-black tabular-nums ${accent}`}>{formatLapTime(stop.durationMs)}</span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
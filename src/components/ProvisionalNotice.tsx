@@ -0,0 +1,14 @@
+import { Hourglass } from "@phosphor-icons/react";
+
+// Standings computed from the latest results while the official feed catches up
+export function ProvisionalNotice({ className = "" }: { className?: string }) {
+  return (
+    <div
+      title="Oficiální pořadí zatím nezahrnuje nejnovější výsledky, body jsou sečtené přímo z nich"
+      className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-sky-500/10 border border-sky-500/20 text-sky-300 text-xs font-medium ${className}`}
+    >
+      <Hourglass className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>Předběžné pořadí · spočítáno z výsledků</span>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { Fragment } from "react";
+import { getDriverCode, type QualifyingResult } from "@/services/f1Service";
+import { formatGap, parseLapTime } from "@/lib/lapTime";
+import { DriverLink } from "@/components/DriverLink";
+import { Scissors } from "@phosphor-icons/react";
+
+interface QualifyingResultsProps {
+  results: QualifyingResult[];
+  // Season of the race, carried into driver profile links
+  season?: string;
+}
+
+type Segment = "Q1" | "Q2" | "Q3";
+
+const segments: Segment[] = ["Q1", "Q2", "Q3"];
+
+// The last segment a driver took part in; Q2/Q3 keys only exist for drivers
+// who made it through
+const lastSegment = (result: QualifyingResult): Segment =>
+  result.Q3 !== undefined ? "Q3" : result.Q2 !== undefined ? "Q2" : "Q1";
+
+// A driver's representative lap: the one from the furthest segment with a time
+const bestTime = (result: QualifyingResult): number | null => {
+  for (const segment of [...segments].reverse()) {
+    const time = parseLapTime(result[segment]);
+    if (time !== null) return time;
+  }
+  return null;
+};
+
+// Delta to the teammate in the last segment both of them set a time in
+function teammateDelta(result: QualifyingResult, teammate: QualifyingResult | undefined) {
+  if (!teammate) return null;
+  for (const segment of [...segments].reverse()) {
+    const own = parseLapTime(result[segment]);
+    const theirs = parseLapTime(teammate[segment]);
+    if (own !== null && theirs !== null) {
+      return { segment, delta: own - theirs, teammate };
+    }
+  }
+  return null;
+}
+
+export function QualifyingResults({ results, season }: QualifyingResultsProps) {
+  const sorted = [...results].sort((a, b) => a.position - b.position);
+  const poleTime = sorted.length > 0 ? bestTime(sorted[0]) : null;
+  const hasKnockout = sorted.some((result) => result.Q2 !== undefined);
+
+  const teammates = (result: QualifyingResult) =>
+    sorted.find((other) =>
+      other.Constructor.constructorId === result.Constructor.constructorId &&
+      other.Driver.driverId !== result.Driver.driverId
+    );
+
+  return (
+    <div className="space-y-1.5">
+      {/* Column headers */}
+      <div className="grid grid-cols-[2rem_1fr_4.5rem_4.5rem] sm:grid-cols-[2rem_1fr_4.5rem_4.5rem_4.5rem_4rem_4.5rem] items-center gap-2 px-3 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-600">
+        <span className="text-center">Poz</span>
+        <span>Jezdec</span>
+        {segments.map((segment) => (
+          <span key={segment} className={`text-right ${segment === "Q3" ? "" : "hidden sm:block"}`}>{segment}</span>
+        ))}
+        <span className="text-right">Ztráta</span>
+        <span className="hidden sm:block text-right">Týmový</span>
+      </div>
+
+      {sorted.map((result, index) => {
+        const next = sorted[index + 1];
+        const isCut = hasKnockout && next && lastSegment(next) !== lastSegment(result);
+
+        return (
+          <Fragment key={result.Driver.driverId}>
+            <QualifyingRow
+              result={result}
+              poleTime={poleTime}
+              teammate={teammateDelta(result, teammates(result))}
+              season={season}
+            />
+            {isCut && <CutLine eliminatedIn={lastSegment(next)} />}
+          </Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
+function QualifyingRow({ result, poleTime, teammate, season }: {
+  result: QualifyingResult;
+  poleTime: number | null;
+  teammate: ReturnType<typeof teammateDelta>;
+  season?: string;
+}) {
+  const time = bestTime(result);
+  const gap = time !== null && poleTime !== null ? time - poleTime : null;
+  const reached = lastSegment(result);
+
+  return (
+    <div className={`grid grid-cols-[2rem_1fr_4.5rem_4.5rem] sm:grid-cols-[2rem_1fr_4.5rem_4.5rem_4.5rem_4rem_4.5rem] items-center gap-2 p-3 rounded-xl border border-white/5 hover:bg-white/[0.06] transition-all ${result.position === 1 ? 'bg-gradient-to-r from-purple-500/15 to-transparent' : 'bg-white/[0.02]'}`}>
+      <div className="text-center">
+        <span className={`text-lg font-black ${result.position === 1 ? 'text-purple-400' : 'text-gray-500'}`}>{result.position}</span>
+      </div>
+
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="px-1.5 py-0.5 text-[10px] font-bold bg-white/10 rounded text-white/80 border border-white/10">
+            {getDriverCode(result.Driver)}
+          </span>
+          <DriverLink driverId={result.Driver.driverId} season={season} className="min-w-0 truncate">
+            <span className="text-white font-bold text-sm">{result.Driver.familyName}</span>
+          </DriverLink>
+        </div>
+        <p className="text-gray-600 text-xs mt-0.5 truncate">{result.Constructor.name}</p>
+      </div>
+
+      {segments.map((segment) => (
+        <span
+          key={segment}
+          className={`text-right text-xs sm:text-sm tabular-nums ${segment === "Q3" ? "" : "hidden sm:block"} ${segment === reached ? 'text-white font-semibold' : 'text-gray-500'}`}
+        >
+          {result[segment] || (result[segment] === "" ? 'bez času' : '–')}
+        </span>
+      ))}
+
+      <span className="text-right text-xs sm:text-sm font-medium text-gray-400 tabular-nums">
+        {gap === null ? '–' : gap === 0 ? 'Pole' : formatGap(gap)}
+      </span>
+
+      <span
+        className={`hidden sm:block text-right text-xs font-bold tabular-nums ${!teammate ? 'text-gray-600' : teammate.delta <= 0 ? 'text-emerald-400' : 'text-red-400'}`}
+        title={teammate ? `vs. ${teammate.teammate.Driver.familyName} (${teammate.segment})` : undefined}
+      >
+        {teammate ? formatGap(teammate.delta) : '–'}
+      </span>
+    </div>
+  );
+}
+
+function CutLine({ eliminatedIn }: { eliminatedIn: Segment }) {
+  return (
+    <div className="flex items-center gap-2 py-1.5 px-1">
+      <div className="flex-1 h-px bg-gradient-to-r from-transparent via-f1-red/60 to-f1-red/60" />
+      <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-f1-red">
+        <Scissors className="w-3 h-3" />
+        Vyřazeni v {eliminatedIn}
+      </span>
+      <div className="flex-1 h-px bg-gradient-to-l from-transparent via-f1-red/60 to-f1-red/60" />
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { getDriverCode, type RaceResult } from "@/services/f1Service";
+import { DriverLink } from "@/components/DriverLink";
+import { isClassified } from "@/lib/standings";
+import { ArrowDown, ArrowUp, Minus, Timer, Warning, Prohibit } from "@phosphor-icons/react";
+
+interface RaceClassificationProps {
+  results: RaceResult[];
+  // Sprint of the same weekend; its points are added to each driver's haul
+  sprintResults?: RaceResult[];
+  // Season of the race, carried into driver profile links
+  season?: string;
+}
+
+const positionColors = {
+  1: 'text-yellow-400',
+  2: 'text-gray-300',
+  3: 'text-amber-600',
+};
+
+const outcomeGroups = [
+  { title: "Nedokončili (DNF)", codes: ["R", "N"], icon: Warning },
+  { title: "Diskvalifikováni (DSQ)", codes: ["D", "E"], icon: Prohibit },
+  { title: "Neodstartovali (DNS)", codes: ["W", "F"], icon: Minus },
+];
+
+export function RaceClassification({ results, sprintResults = [], season }: RaceClassificationProps) {
+  const classified = results.filter((result) => isClassified(result.positionText));
+  const fastestLap = results.find((result) => result.FastestLap?.rank === 1);
+  const sprintPoints = new Map(
+    sprintResults.map((result) => [result.Driver.driverId, result.points])
+  );
+
+  return (
+    <div className="space-y-4">
+      {fastestLap && <FastestLapCard result={fastestLap} />}
+
+      {/* Column headers */}
+      <div className="grid grid-cols-[2rem_1fr_2.5rem_2.5rem_2.5rem_4.5rem_2.5rem] sm:grid-cols-[2rem_1fr_3rem_3rem_3rem_6rem_3rem] items-center gap-2 px-3 text-[10px] font-bold uppercase tracking-wider text-gray-600">
+        <span className="text-center">Poz</span>
+        <span>Jezdec</span>
+        <span className="text-center">Start</span>
+        <span className="text-center">+/−</span>
+        <span className="text-center">Kola</span>
+        <span className="text-right">Čas</span>
+        <span className="text-right">Body</span>
+      </div>
+
+      <div className="space-y-1.5">
+        {classified.map((result, index) => (
+          <ClassificationRow
+            key={result.Driver.driverId}
+            result={result}
+            index={index}
+            sprintPoints={sprintPoints.get(result.Driver.driverId) ?? 0}
+            season={season}
+          />
+        ))}
+      </div>
+
+      {outcomeGroups.map(({ title, codes, icon }) => {
+        const group = results.filter((result) => codes.includes(result.positionText));
+        if (group.length === 0) return null;
+        return <OutcomeGroup key={title} title={title} icon={icon} results={group} sprintPoints={sprintPoints} season={season} />;
+      })}
+    </div>
+  );
+}
+
+function ClassificationRow({ result, index, sprintPoints, season }: {
+  result: RaceResult;
+  index: number;
+  sprintPoints: number;
+  season?: string;
+}) {
+  const positionColor = positionColors[result.position as 1 | 2 | 3] || 'text-gray-500';
+
+  return (
+    <div className={`grid grid-cols-[2rem_1fr_2.5rem_2.5rem_2.5rem_4.5rem_2.5rem] sm:grid-cols-[2rem_1fr_3rem_3rem_3rem_6rem_3rem] items-center gap-2 p-3 rounded-xl ${index < 3 ? 'bg-white/[0.04]' : 'bg-white/[0.02]'
+      } border border-white/5 hover:bg-white/[0.06] transition-all`}>
+      {/* Position */}
+      <div className="text-center">
+        <span className={`text-lg font-black ${positionColor}`}>{result.position}</span>
+      </div>
+
+      {/* Driver */}
+      <DriverCell result={result} season={season} />
+
+      {/* Grid */}
+      <span className="text-center text-sm text-gray-400 tabular-nums">
+        {result.grid === 0 ? 'PL' : result.grid}
+      </span>
+
+      {/* Positions gained or lost */}
+      <PositionChange result={result} />
+
+      {/* Laps */}
+      <span className="text-center text-sm text-gray-400 tabular-nums">{result.laps}</span>
+
+      {/* Time, gap or lapped status */}
+      <span className="text-right text-xs sm:text-sm font-medium text-gray-300 tabular-nums truncate">
+        {result.Time ? result.Time.time : result.status}
+      </span>
+
+      {/* Points, with the sprint share of the weekend broken out */}
+      <WeekendPoints racePoints={result.points} sprintPoints={sprintPoints} />
+    </div>
+  );
+}
+
+function WeekendPoints({ racePoints, sprintPoints }: { racePoints: number; sprintPoints: number }) {
+  const total = racePoints + sprintPoints;
+
+  return (
+    <div className="text-right leading-tight">
+      <span className={`text-sm font-bold tabular-nums ${total > 0 ? 'text-white' : 'text-gray-600'}`}>
+        {total > 0 ? total : '–'}
+      </span>
+      {sprintPoints > 0 && (
+        <p className="text-[10px] text-gray-500 tabular-nums whitespace-nowrap" title="Velká cena + sprint">
+          {racePoints}+<span className="text-f1-red">{sprintPoints}S</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function DriverCell({ result, season }: { result: RaceResult; season?: string }) {
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center gap-2">
+        <span className="px-1.5 py-0.5 text-[10px] font-bold bg-white/10 rounded text-white/80 border border-white/10">
+          {getDriverCode(result.Driver)}
+        </span>
+        <DriverLink driverId={result.Driver.driverId} season={season} className="flex items-center gap-2 min-w-0">
+          <span className="hidden sm:inline text-gray-400 text-sm truncate">{result.Driver.givenName}</span>
+          <span className="text-white font-bold text-sm truncate">{result.Driver.familyName}</span>
+        </DriverLink>
+      </div>
+      <p className="text-gray-600 text-xs mt-0.5 truncate">{result.Constructor.name}</p>
+    </div>
+  );
+}
+
+// Grid 0 means a pit lane start, which is counted from the back of the field
+function PositionChange({ result }: { result: RaceResult }) {
+  if (result.grid === 0) {
+    return <span className="text-center text-xs text-gray-600">–</span>;
+  }
+
+  const change = result.grid - result.position;
+
+  if (change === 0) {
+    return (
+      <span className="flex items-center justify-center text-gray-600">
+        <Minus className="w-3 h-3" />
+      </span>
+    );
+  }
+
+  const Icon = change > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span className={`flex items-center justify-center gap-0.5 text-xs font-bold tabular-nums ${change > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+      <Icon className="w-3 h-3" />
+      {Math.abs(change)}
+    </span>
+  );
+}
+
+function FastestLapCard({ result }: { result: RaceResult }) {
+  return (
+    <div className="flex items-center gap-4 p-4 rounded-xl bg-gradient-to-r from-purple-500/15 to-transparent border border-purple-500/20">
+      <div className="w-10 h-10 rounded-xl bg-purple-500/15 border border-purple-500/30 flex items-center justify-center flex-shrink-0">
+        <Timer className="h-5 w-5 text-purple-400" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-gray-500 text-xs font-medium mb-0.5">Nejrychlejší kolo</p>
+        <p className="font-bold text-white truncate">
+          {result.Driver.givenName} {result.Driver.familyName}
+          <span className="text-gray-500 font-normal text-sm"> · {result.Constructor.name}</span>
+        </p>
+      </div>
+      <div className="text-right">
+        <p className="text-lg font-black text-purple-400 tabular-nums">{result.FastestLap.Time?.time ?? '–'}</p>
+        <p className="text-[11px] text-gray-500">{result.FastestLap.lap}. kolo</p>
+      </div>
+    </div>
+  );
+}
+
+function OutcomeGroup({ title, icon: Icon, results, sprintPoints, season }: {
+  title: string;
+  icon: typeof Warning;
+  results: RaceResult[];
+  sprintPoints: Map<string, number>;
+  season?: string;
+}) {
+  return (
+    <section>
+      <div className="flex items-center gap-2 mb-2 px-1">
+        <Icon className="w-4 h-4 text-red-400" />
+        <h4 className="text-sm font-bold text-white">{title}</h4>
+        <span className="text-xs text-gray-600">{results.length}</span>
+      </div>
+      <div className="space-y-1.5">
+        {results.map((result) => (
+          <div
+            key={result.Driver.driverId}
+            className="grid grid-cols-[1fr_auto] items-center gap-3 p-3 rounded-xl bg-red-900/10 border border-red-900/20"
+          >
+            <DriverCell result={result} season={season} />
+            <div className="text-right">
+              <p className="text-sm font-medium text-red-300">{result.status}</p>
+              <p className="text-[11px] text-gray-500">
+                {result.laps} {result.laps === 1 ? 'kolo' : result.laps >= 2 && result.laps <= 4 ? 'kola' : 'kol'}
+                {result.grid > 0 && ` · start ${result.grid}.`}
+                {sprintPoints.get(result.Driver.driverId) > 0 && ` · sprint ${sprintPoints.get(result.Driver.driverId)} b.`}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -1,36 +1,27 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogClose } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { fetchRaceResults, Race } from "@/services/f1Service";
-import { format, parseISO, isValid, isWithinInterval, isSameDay } from "date-fns";
+import { useLaps, usePitStops, useQualifyingResults, useRaceResults, useSprintResults, Race, RaceResult } from "@/services/f1Service";
+import { StaleDataIndicator } from "@/components/StaleDataIndicator";
+import { RaceClassification } from "@/components/RaceClassification";
+import { QualifyingResults } from "@/components/QualifyingResults";
+import { LapPositionChart } from "@/components/LapPositionChart";
+import { PitStopStrategy } from "@/components/PitStopStrategy";
+import { RaceReplay } from "@/components/RaceReplay";
+import { buildCalendar, downloadCalendar } from "@/lib/calendarExport";
+import { addHours, format, parseISO, isValid, isWithinInterval, isSameDay } from "date-fns";
 import { cs } from "date-fns/locale";
-import { Calendar, MapPin, Clock, Trophy, Info, X, Lightning, ArrowSquareOut, CheckCircle } from "@phosphor-icons/react";
+import { Calendar, MapPin, Clock, Trophy, Info, X, Lightning, ArrowSquareOut, CheckCircle, Timer, ChartLine, Wrench, Play, CalendarPlus } from "@phosphor-icons/react";
 
 interface RaceDetailsProps {
   race: Race | null;
   isOpen: boolean;
   onClose: () => void;
-}
-
-interface RaceResult {
-  position: string;
-  Driver: {
-    code: string;
-    givenName: string;
-    familyName: string;
-  };
-  Constructor: {
-    name: string;
-  };
-  Time?: {
-    time: string;
-  };
-  status?: string;
-}
-
-interface RaceResultsResponse {
-  Results: RaceResult[];
+  // Active tab, kept in the URL by the caller; unknown or unavailable tabs
+  // fall back to the schedule
+  tab?: string;
+  onTabChange: (tab: string) => void;
 }
 
 const countryFlags: { [key: string]: string } = {
@@ -61,6 +52,16 @@ function getEventDateRange(race: Race): { startDate: Date | null; endDate: Date
   };
 }
 
+// Qualifying and sprint results land shortly after the session; historic
+// schedules have no session times, so fall back to the whole event being over
+function hasSessionFinished(session: Race["Qualifying"], endDate: Date | null): boolean {
+  if (session?.time) {
+    const start = parseISO(`${session.date}T${session.time}`);
+    return isValid(start) && addHours(start, 1) < new Date();
+  }
+  return !!endDate && endDate < new Date();
+}
+
 function getRaceStatus(startDate: Date | null, endDate: Date | null): {
   status: "past" | "current" | "upcoming";
   label: string;
@@ -83,40 +84,26 @@ function getRaceStatus(startDate: Date | null, endDate: Date | null): {
   return { status: "upcoming", label: "Nadcházející", icon: Clock };
 }
 
-export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
-  const [raceResults, setRaceResults] = useState<RaceResultsResponse | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const getRaceResults = async () => {
-      if (!race) return;
-
-      const { endDate } = getEventDateRange(race);
-      if (!endDate) return;
-
-      try {
-        const today = new Date();
-        if (endDate < today) {
-          try {
-            setLoading(true);
-            const results = await fetchRaceResults(race.season, race.round);
-            setRaceResults(results);
-            setLoading(false);
-          } catch (err) {
-            setError("Nepodařilo se načíst výsledky závodu");
-            setLoading(false);
-          }
-        }
-      } catch (err) {
-        console.error("Error checking race date:", err);
-      }
-    };
-
-    if (isOpen && race) {
-      getRaceResults();
-    }
-  }, [isOpen, race]);
+export function RaceDetails({ race, isOpen, onClose, tab, onTabChange }: RaceDetailsProps) {
+  const raceEnd = race ? getEventDateRange(race).endDate : null;
+  const { results: raceResults, loading, error: resultsError, updatedAt, refreshFailed } = useRaceResults(
+    race?.season,
+    race?.round,
+    isOpen && !!raceEnd && raceEnd < new Date()
+  );
+  const error = resultsError ? "Nepodařilo se načíst výsledky závodu" : null;
+  const qualifyingFinished = race ? hasSessionFinished(race.Qualifying, raceEnd) : false;
+  const {
+    qualifying,
+    loading: qualifyingLoading,
+    error: qualifyingError,
+  } = useQualifyingResults(race?.season, race?.round, isOpen && qualifyingFinished);
+  const sprintFinished = !!race?.Sprint && hasSessionFinished(race.Sprint, raceEnd);
+  const {
+    sprint,
+    loading: sprintLoading,
+    error: sprintError,
+  } = useSprintResults(race?.season, race?.round, isOpen && sprintFinished);
 
   if (!race) return null;
 
@@ -124,6 +111,16 @@ export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
   const { status, label, icon: StatusIcon } = getRaceStatus(startDate, endDate);
   const isSprintWeekend = !!race.Sprint;
   const countryCode = countryFlags[race.Circuit.Location.country] || "UN";
+  const availableTabs = [
+    "schedule",
+    "circuit",
+    qualifyingFinished && "qualifying",
+    sprintFinished && "sprint",
+    status === "past" && "results",
+    status === "past" && "progress",
+    status === "past" && "pitstops",
+  ].filter(Boolean);
+  const activeTab = tab && availableTabs.includes(tab) ? tab : "schedule";
 
   let formattedDateRange = "Bude oznámeno";
   try {
@@ -208,8 +205,8 @@ export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
 
         {/* Tabs */}
         <div className="px-6 pb-6">
-          <Tabs defaultValue="schedule">
-            <TabsList className="bg-white/5 border border-white/10 rounded-xl mb-4 p-1 w-full flex">
+          <Tabs value={activeTab} onValueChange={onTabChange}>
+            <TabsList className="bg-white/5 border border-white/10 rounded-xl mb-4 p-1 w-full flex justify-start overflow-x-auto">
               <TabsTrigger value="schedule" className="flex-1 rounded-lg text-xs sm:text-sm font-medium transition-all data-[state=active]:bg-gradient-to-r data-[state=active]:from-f1-red data-[state=active]:to-f1-crimson data-[state=active]:text-white data-[state=active]:shadow-lg">
                 <Clock className="h-3.5 w-3.5 mr-1.5" />
                 Program
@@ -218,12 +215,36 @@ export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
                 <MapPin className="h-3.5 w-3.5 mr-1.5" />
                 Okruh
               </TabsTrigger>
+              {qualifyingFinished && (
+                <TabsTrigger value="qualifying" className="flex-1 rounded-lg text-xs sm:text-sm font-medium transition-all data-[state=active]:bg-gradient-to-r data-[state=active]:from-f1-red data-[state=active]:to-f1-crimson data-[state=active]:text-white data-[state=active]:shadow-lg">
+                  <Timer className="h-3.5 w-3.5 mr-1.5" />
+                  Kvalifikace
+                </TabsTrigger>
+              )}
+              {sprintFinished && (
+                <TabsTrigger value="sprint" className="flex-1 rounded-lg text-xs sm:text-sm font-medium transition-all data-[state=active]:bg-gradient-to-r data-[state=active]:from-f1-red data-[state=active]:to-f1-crimson data-[state=active]:text-white data-[state=active]:shadow-lg">
+                  <Lightning className="h-3.5 w-3.5 mr-1.5" />
+                  Sprint
+                </TabsTrigger>
+              )}
               {status === "past" && (
                 <TabsTrigger value="results" className="flex-1 rounded-lg text-xs sm:text-sm font-medium transition-all data-[state=active]:bg-gradient-to-r data-[state=active]:from-f1-red data-[state=active]:to-f1-crimson data-[state=active]:text-white data-[state=active]:shadow-lg">
                   <Trophy className="h-3.5 w-3.5 mr-1.5" />
                   Výsledky
                 </TabsTrigger>
               )}
+              {status === "past" && (
+                <TabsTrigger value="progress" className="flex-1 rounded-lg text-xs sm:text-sm font-medium transition-all data-[state=active]:bg-gradient-to-r data-[state=active]:from-f1-red data-[state=active]:to-f1-crimson data-[state=active]:text-white data-[state=active]:shadow-lg">
+                  <ChartLine className="h-3.5 w-3.5 mr-1.5" />
+                  Průběh
+                </TabsTrigger>
+              )}
+              {status === "past" && (
+                <TabsTrigger value="pitstops" className="flex-1 rounded-lg text-xs sm:text-sm font-medium transition-all data-[state=active]:bg-gradient-to-r data-[state=active]:from-f1-red data-[state=active]:to-f1-crimson data-[state=active]:text-white data-[state=active]:shadow-lg">
+                  <Wrench className="h-3.5 w-3.5 mr-1.5" />
+                  Zastávky
+                </TabsTrigger>
+              )}
             </TabsList>
 
             <TabsContent value="schedule" className="mt-0 focus-visible:outline-none">
@@ -287,6 +308,18 @@ export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
                   highlight
                   isMain
                 />
+
+                <button
+                  type="button"
+                  onClick={() => downloadCalendar(
+                    buildCalendar([race], "all", race.raceName),
+                    `f1-${race.season}-${race.round}.ics`
+                  )}
+                  className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-white/10 text-sm font-medium text-gray-300 hover:bg-white/5 hover:text-white transition-all"
+                >
+                  <CalendarPlus className="h-4 w-4 text-f1-red" />
+                  Přidat víkend do kalendáře
+                </button>
               </div>
             </TabsContent>
 
@@ -325,6 +358,56 @@ export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
               </div>
             </TabsContent>
 
+            {qualifyingFinished && (
+              <TabsContent value="qualifying" className="mt-0 focus-visible:outline-none">
+                {qualifyingLoading && (
+                  <div className="space-y-2">
+                    {[...Array(5)].map((_, i) => (
+                      <div key={i} className="h-14 bg-white/5 rounded-xl animate-pulse" />
+                    ))}
+                  </div>
+                )}
+                {qualifyingError && (
+                  <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+                    <p className="text-red-400 text-sm">Nepodařilo se načíst výsledky kvalifikace</p>
+                  </div>
+                )}
+                {!qualifyingLoading && !qualifyingError && !qualifying?.QualifyingResults?.length && (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">Výsledky kvalifikace zatím nejsou k dispozici</p>
+                  </div>
+                )}
+                {!qualifyingLoading && !qualifyingError && qualifying?.QualifyingResults?.length > 0 && (
+                  <QualifyingResults results={qualifying.QualifyingResults} season={race.season} />
+                )}
+              </TabsContent>
+            )}
+
+            {sprintFinished && (
+              <TabsContent value="sprint" className="mt-0 focus-visible:outline-none">
+                {sprintLoading && (
+                  <div className="space-y-2">
+                    {[...Array(5)].map((_, i) => (
+                      <div key={i} className="h-14 bg-white/5 rounded-xl animate-pulse" />
+                    ))}
+                  </div>
+                )}
+                {sprintError && (
+                  <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+                    <p className="text-red-400 text-sm">Nepodařilo se načíst výsledky sprintu</p>
+                  </div>
+                )}
+                {!sprintLoading && !sprintError && !sprint?.SprintResults?.length && (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">Výsledky sprintu zatím nejsou k dispozici</p>
+                  </div>
+                )}
+                {!sprintLoading && !sprintError && sprint?.SprintResults?.length > 0 && (
+                  <RaceClassification results={sprint.SprintResults} season={race.season} />
+                )}
+              </TabsContent>
+            )}
+
             {status === "past" && (
               <TabsContent value="results" className="mt-0 focus-visible:outline-none">
                 {loading && (
@@ -345,14 +428,25 @@ export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
                   </div>
                 )}
                 {!loading && !error && raceResults && raceResults.Results && (
-                  <div className="space-y-1.5">
-                    {raceResults.Results.slice(0, 10).map((result, index) => (
-                      <ResultRow key={result.position} result={result} index={index} />
-                    ))}
+                  <div>
+                    <StaleDataIndicator updatedAt={updatedAt} refreshFailed={refreshFailed} className="mb-3" />
+                    <RaceClassification results={raceResults.Results} sprintResults={sprint?.SprintResults} season={race.season} />
                   </div>
                 )}
               </TabsContent>
             )}
+
+            {status === "past" && (
+              <TabsContent value="progress" className="mt-0 focus-visible:outline-none">
+                <RaceProgress race={race} results={raceResults?.Results ?? []} />
+              </TabsContent>
+            )}
+
+            {status === "past" && (
+              <TabsContent value="pitstops" className="mt-0 focus-visible:outline-none">
+                <RacePitStops race={race} results={raceResults?.Results ?? []} />
+              </TabsContent>
+            )}
           </Tabs>
         </div>
       </DialogContent>
@@ -360,6 +454,92 @@ export function RaceDetails({ race, isOpen, onClose }: RaceDetailsProps) {
   );
 }
 
+// Mounted only while its tab is open, so the laps are fetched on demand
+function RaceProgress({ race, results }: { race: Race; results: RaceResult[] }) {
+  const [view, setView] = useState<"chart" | "replay">("chart");
+  const { laps, loading, error } = useLaps(race.season, race.round);
+  const { pitStops, loading: pitStopsLoading } = usePitStops(race.season, race.round);
+
+  if (loading || pitStopsLoading) {
+    return <div className="h-[420px] bg-white/5 rounded-xl animate-pulse" />;
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+        <p className="text-red-400 text-sm">Nepodařilo se načíst průběh závodu</p>
+      </div>
+    );
+  }
+
+  if (laps.length === 0 || results.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">Data o jednotlivých kolech nejsou k dispozici</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-1.5">
+        {([
+          { value: "chart", label: "Graf pozic", icon: ChartLine },
+          { value: "replay", label: "Přehrávání", icon: Play },
+        ] as const).map(({ value, label, icon: Icon }) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setView(value)}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${view === value
+              ? 'bg-white/10 border-white/20 text-white'
+              : 'border-white/5 text-gray-400 hover:bg-white/5'
+              }`}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            {label}
+          </button>
+        ))}
+      </div>
+      {view === "chart"
+        ? <LapPositionChart results={results} laps={laps} pitStops={pitStops} />
+        : <RaceReplay results={results} laps={laps} pitStops={pitStops} />}
+    </div>
+  );
+}
+
+function RacePitStops({ race, results }: { race: Race; results: RaceResult[] }) {
+  const { pitStops, loading, error } = usePitStops(race.season, race.round);
+
+  if (loading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(5)].map((_, i) => (
+          <div key={i} className="h-14 bg-white/5 rounded-xl animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+        <p className="text-red-400 text-sm">Nepodařilo se načíst zastávky v boxech</p>
+      </div>
+    );
+  }
+
+  if (pitStops.length === 0 || results.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">Data o zastávkách v boxech nejsou k dispozici</p>
+      </div>
+    );
+  }
+
+  return <PitStopStrategy results={results} pitStops={pitStops} season={race.season} />;
+}
+
 function EventItem({ title, date, time, highlight = false, isMain = false, isSprint = false }: {
   title: string;
   date?: string;
@@ -430,43 +610,3 @@ function EventItem({ title, date, time, highlight = false, isMain = false, isSpr
     </div>
   );
 }
-
-function ResultRow({ result, index }: { result: RaceResult; index: number }) {
-  const positionColors = {
-    1: 'text-yellow-400',
-    2: 'text-gray-300',
-    3: 'text-amber-600',
-  };
-
-  const position = parseInt(result.position);
-  const positionColor = positionColors[position as 1 | 2 | 3] || 'text-gray-500';
-
-  return (
-    <div className={`flex items-center gap-3 p-3 rounded-xl ${index < 3 ? 'bg-white/[0.04]' : 'bg-white/[0.02]'
-      } border border-white/5 hover:bg-white/[0.06] transition-all`}>
-      {/* Position */}
-      <div className="w-8 text-center">
-        <span className={`text-lg font-black ${positionColor}`}>{result.position}</span>
-      </div>
-
-      {/* Driver */}
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <span className="px-1.5 py-0.5 text-[10px] font-bold bg-white/10 rounded text-white/80 border border-white/10">
-            {result.Driver.code}
-          </span>
-          <span className="text-gray-400 text-sm">{result.Driver.givenName}</span>
-          <span className="text-white font-bold text-sm">{result.Driver.familyName}</span>
-        </div>
-        <p className="text-gray-600 text-xs mt-0.5 truncate">{result.Constructor.name}</p>
-      </div>
-
-      {/* Time */}
-      <div className="text-right">
-        <span className="text-sm font-medium text-gray-300">
-          {result.Time ? result.Time.time : (result.status || 'DNF')}
-        </span>
-      </div>
-    </div>
-  );
-}
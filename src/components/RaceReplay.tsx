@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useState } from "react";
+import { Slider } from "@/components/ui/slider";
+import { getDriverCode, type Lap, type PitStop, type RaceResult } from "@/services/f1Service";
+import { buildReplay, type ReplayEntry, type ReplayEvent } from "@/lib/raceReplay";
+import { formatGap } from "@/lib/lapTime";
+import { getTeamColor } from "@/lib/teamColors";
+import { ArrowUp, Flag, Pause, Play, Warning, Wrench } from "@phosphor-icons/react";
+
+interface RaceReplayProps {
+  results: RaceResult[];
+  laps: Lap[];
+  pitStops: PitStop[];
+}
+
+// One lap per second at 1×
+const LAP_DURATION_MS = 1000;
+const SPEEDS = [0.5, 1, 2, 4];
+const ROW_HEIGHT = 36;
+
+export function RaceReplay({ results, laps, pitStops }: RaceReplayProps) {
+  const frames = useMemo(() => buildReplay(results, laps, pitStops), [results, laps, pitStops]);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const lastFrame = frames.length - 1;
+  const frame = frames[Math.min(frameIndex, lastFrame)];
+  const resultByDriver = new Map(results.map((result) => [result.Driver.driverId, result]));
+
+  useEffect(() => {
+    if (!playing) return;
+    if (frameIndex >= lastFrame) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex((index) => index + 1), LAP_DURATION_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, frameIndex, lastFrame, speed]);
+
+  const togglePlaying = () => {
+    // Restart from the grid once the chequered flag has been shown
+    if (!playing && frameIndex >= lastFrame) setFrameIndex(0);
+    setPlaying(!playing);
+  };
+
+  // Latest calls first, everything up to the lap on screen
+  const feed = frames
+    .slice(1, frameIndex + 1)
+    .flatMap((f) => f.events)
+    .reverse()
+    .slice(0, 6);
+  const gainedThisLap = new Set(
+    frame.events.filter((event) => event.type === "overtake").map((event) => event.driverId)
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Controls */}
+      <div className="p-3 rounded-xl bg-white/[0.03] border border-white/5 space-y-3">
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={togglePlaying}
+            aria-label={playing ? "Pozastavit" : "Přehrát"}
+            className="w-9 h-9 rounded-lg bg-gradient-to-r from-f1-red to-f1-crimson text-white flex items-center justify-center flex-shrink-0 shadow-lg shadow-f1-red/20"
+          >
+            {playing ? <Pause weight="fill" className="w-4 h-4" /> : <Play weight="fill" className="w-4 h-4" />}
+          </button>
+          <Slider
+            value={[frameIndex]}
+            min={0}
+            max={lastFrame}
+            step={1}
+            onValueChange={([value]) => setFrameIndex(value)}
+            className="[&_.bg-secondary]:bg-white/10 [&_.bg-primary]:bg-f1-red [&_[role=slider]]:border-f1-red [&_[role=slider]]:bg-[#151515]"
+          />
+          <span className="text-sm font-bold text-white tabular-nums whitespace-nowrap min-w-[4.5rem] text-right">
+            {frame.lap === 0 ? "Start" : `${frame.lap}/${frames[lastFrame].lap}`}
+          </span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <span className="text-[11px] text-gray-500 mr-1">Rychlost</span>
+          {SPEEDS.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setSpeed(value)}
+              className={`px-2 py-0.5 rounded-md text-[11px] font-bold border transition-all ${speed === value
+                ? 'bg-white/15 border-white/30 text-white'
+                : 'border-white/10 text-gray-400 hover:bg-white/10'
+                }`}
+            >
+              {value}×
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Running order; rows slide to their new place on every lap */}
+      <div className="relative" style={{ height: frame.order.length * ROW_HEIGHT }}>
+        {frame.order.map((entry) => (
+          <ReplayRow
+            key={entry.driverId}
+            entry={entry}
+            result={resultByDriver.get(entry.driverId)}
+            gained={gainedThisLap.has(entry.driverId)}
+            transitionMs={LAP_DURATION_MS / speed}
+          />
+        ))}
+      </div>
+
+      {/* Overtakes and retirements as they happened */}
+      <section>
+        <h4 className="text-sm font-bold text-white mb-2 px-1">Dění v závodě</h4>
+        {feed.length === 0 ? (
+          <p className="text-xs text-gray-500 px-1">Zatím bez předjetí a odstoupení</p>
+        ) : (
+          <div className="space-y-1.5">
+            {feed.map((event, index) => (
+              <EventCall key={`${event.lap}-${event.type}-${event.driverId}-${index}`} event={event} resultByDriver={resultByDriver} />
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
+
+function ReplayRow({ entry, result, gained, transitionMs }: {
+  entry: ReplayEntry;
+  result: RaceResult | undefined;
+  gained: boolean;
+  transitionMs: number;
+}) {
+  if (!result) return null;
+
+  let gap = "";
+  if (entry.retired) gap = "OUT";
+  else if (entry.position === 1 && entry.gapMs !== null) gap = "Lídr";
+  else if (entry.lapsDown > 0) gap = `+${entry.lapsDown} ${entry.lapsDown === 1 ? 'kolo' : entry.lapsDown <= 4 ? 'kola' : 'kol'}`;
+  else if (entry.gapMs !== null) gap = formatGap(entry.gapMs);
+
+  return (
+    <div
+      className={`absolute inset-x-0 flex items-center gap-3 px-3 rounded-lg transition-[top,opacity] ease-in-out ${entry.retired ? 'opacity-40' : ''}`}
+      style={{ top: (entry.position - 1) * ROW_HEIGHT, height: ROW_HEIGHT - 4, transitionDuration: `${transitionMs}ms` }}
+    >
+      <span className="w-6 text-right text-sm font-black text-gray-500 tabular-nums">{entry.position}</span>
+      <span className="w-1 h-5 rounded-full" style={{ backgroundColor: getTeamColor(result.Constructor) }} />
+      <span className="w-10 text-xs font-bold text-white">{getDriverCode(result.Driver)}</span>
+      <span className="flex-1 min-w-0 text-xs text-gray-500 truncate">{result.Constructor.name}</span>
+      {gained && <ArrowUp weight="bold" className="w-3.5 h-3.5 text-emerald-400" />}
+      {entry.pitted && (
+        <span className="flex items-center gap-0.5 text-[10px] font-bold text-amber-400">
+          <Wrench className="w-3 h-3" />
+          BOX
+        </span>
+      )}
+      <span className={`w-20 text-right text-xs tabular-nums ${entry.retired ? 'text-red-400 font-bold' : 'text-gray-300'}`}>{gap}</span>
+    </div>
+  );
+}
+
+function EventCall({ event, resultByDriver }: {
+  event: ReplayEvent;
+  resultByDriver: Map<string, RaceResult>;
+}) {
+  const name = (driverId: string) => resultByDriver.get(driverId)?.Driver.familyName ?? driverId;
+
+  if (event.type === "retirement") {
+    return (
+      <div className="flex items-center gap-2 p-2.5 rounded-lg bg-red-900/10 border border-red-900/20 text-xs">
+        <Warning className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
+        <span className="text-gray-500 tabular-nums">{event.lap}. kolo</span>
+        <span className="text-white"><strong>{name(event.driverId)}</strong> odstoupil · {event.status}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 p-2.5 rounded-lg bg-white/[0.02] border border-white/5 text-xs">
+      <Flag className="w-3.5 h-3.5 text-emerald-400 flex-shrink-0" />
+      <span className="text-gray-500 tabular-nums">{event.lap}. kolo</span>
+      <span className="text-white"><strong>{name(event.driverId)}</strong> předjel {name(event.passedId)}</span>
+    </div>
+  );
+}
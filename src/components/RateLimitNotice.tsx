@@ -0,0 +1,30 @@
+import { useRequestSchedulerStatus } from "@/services/f1Service";
+import { format } from "date-fns";
+import { Hourglass } from "@phosphor-icons/react";
+
+// Shown while Jolpica answers 429 and the request queue is holding back
+export function RateLimitNotice() {
+  const { throttled, resumeAt, pending } = useRequestSchedulerStatus();
+
+  if (!throttled) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-24 sm:bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md"
+    >
+      <div className="flex items-center gap-3 p-3 rounded-xl bg-black/90 backdrop-blur-xl border border-amber-500/30 shadow-lg shadow-black/40">
+        <div className="w-8 h-8 rounded-lg bg-amber-500/10 border border-amber-500/20 flex items-center justify-center flex-shrink-0">
+          <Hourglass className="w-4 h-4 text-amber-400 animate-pulse" />
+        </div>
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-white">Jolpica API omezuje počet požadavků</p>
+          <p className="text-xs text-gray-400">
+            {pending > 0 ? `${pending} ${pending === 1 ? 'požadavek čeká' : pending < 5 ? 'požadavky čekají' : 'požadavků čeká'}` : 'Data se načtou se zpožděním'}
+            {resumeAt && ` · další pokus v ${format(resumeAt, "HH:mm:ss")}`}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
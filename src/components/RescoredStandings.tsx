@@ -0,0 +1,273 @@
+import { useState } from "react";
+import {
+  useConstructorStandings,
+  useDriverStandings,
+  useRaceSchedule,
+  type Constructor,
+} from "@/services/f1Service";
+import { useRescoredStandings } from "@/hooks/use-rescored-standings";
+import { hasRaceFinished } from "@/lib/championship";
+import {
+  CUSTOM_PRESET,
+  DEFAULT_POINTS_SYSTEM,
+  POINTS_PRESETS,
+  formatPointsTable,
+  parsePointsTable,
+  type PointsSystem,
+} from "@/lib/pointsRules";
+import { getTeamColor } from "@/lib/teamColors";
+import { DriverLink } from "./DriverLink";
+import { ConstructorLink } from "./ConstructorLink";
+import { ArrowsClockwise, CaretDown, CaretUp, Crown } from "@phosphor-icons/react";
+
+interface RescoredStandingsProps {
+  season: string | undefined;
+  kind: "drivers" | "constructors";
+}
+
+interface RescoredRow {
+  id: string;
+  name: string;
+  team: Constructor;
+  points: number;
+  officialPoints: number | undefined;
+  officialPosition: number | undefined;
+}
+
+// Switches a standings table between the official and the rescored view
+export function RescoreToggle({ active, onToggle }: { active: boolean; onToggle: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-pressed={active}
+      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${active
+        ? 'bg-white/10 border-white/20 text-white'
+        : 'border-white/5 text-gray-400 hover:bg-white/5'
+        }`}
+    >
+      <ArrowsClockwise className="w-4 h-4 text-f1-red" />
+      Přepočítat body
+    </button>
+  );
+}
+
+// The season's standings recomputed from race results under another points system
+export function RescoredStandings({ season, kind }: RescoredStandingsProps) {
+  const [system, setSystem] = useState<PointsSystem>(DEFAULT_POINTS_SYSTEM);
+  const { standings, loading, error } = useRescoredStandings(season, system);
+  const { schedule } = useRaceSchedule(season);
+  const { standings: driverStandings } = useDriverStandings(kind === "drivers" ? season : undefined);
+  const { standings: constructorStandings } = useConstructorStandings(kind === "constructors" ? season : undefined);
+
+  const official = new Map<string, { points: number; position: number | undefined; name: string }>(
+    kind === "drivers"
+      ? driverStandings.map((standing) => [standing.Driver.driverId, {
+        points: standing.points,
+        position: standing.position,
+        name: `${standing.Driver.givenName} ${standing.Driver.familyName}`,
+      }])
+      : constructorStandings.map((standing) => [standing.Constructor.constructorId, {
+        points: standing.points,
+        position: standing.position,
+        name: standing.Constructor.name,
+      }])
+  );
+  const rows: RescoredRow[] = !standings ? [] : kind === "drivers"
+    ? standings.drivers.map((entry) => ({
+      id: entry.id,
+      name: `${entry.driver.givenName} ${entry.driver.familyName}`,
+      team: entry.constructor,
+      points: entry.points,
+      officialPoints: official.get(entry.id)?.points,
+      officialPosition: official.get(entry.id)?.position,
+    }))
+    : standings.constructors.map((entry) => ({
+      id: entry.id,
+      name: entry.constructor.name,
+      team: entry.constructor,
+      points: entry.points,
+      officialPoints: official.get(entry.id)?.points,
+      officialPosition: official.get(entry.id)?.position,
+    }));
+
+  const seasonOver = schedule.length > 0 && schedule.every(hasRaceFinished);
+  const leader = rows[0];
+  const officialLeader = [...official.entries()].find(([, entry]) => entry.position === 1);
+  const update = (change: Partial<PointsSystem>) => setSystem((current) => ({ ...current, ...change }));
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 rounded-2xl bg-white/[0.02] border border-white/5 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {POINTS_PRESETS.map((preset) => (
+            <ChoiceButton
+              key={preset.id}
+              active={system.preset === preset.id}
+              onClick={() => update({ preset: preset.id })}
+            >
+              {preset.label}
+            </ChoiceButton>
+          ))}
+          <ChoiceButton active={system.preset === CUSTOM_PRESET} onClick={() => update({ preset: CUSTOM_PRESET })}>
+            Vlastní
+          </ChoiceButton>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <ChoiceButton active={system.sprints} onClick={() => update({ sprints: !system.sprints })}>
+            Body za sprinty
+          </ChoiceButton>
+          <ChoiceButton active={system.fastestLap} onClick={() => update({ fastestLap: !system.fastestLap })}>
+            Bod za nejrychlejší kolo
+          </ChoiceButton>
+        </div>
+
+        {system.preset === CUSTOM_PRESET && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <TableInput
+              label="Body za závod"
+              table={system.customRace}
+              onChange={(customRace) => update({ customRace })}
+            />
+            {system.sprints && (
+              <TableInput
+                label="Body za sprint"
+                table={system.customSprint}
+                onChange={(customSprint) => update({ customSprint })}
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!error && loading && (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => (
+            <div key={i} className="h-14 bg-white/5 rounded-xl animate-pulse" />
+          ))}
+        </div>
+      )}
+
+      {!error && !loading && rows.length === 0 && (
+        <div className="text-center py-8">
+          <p className="text-gray-500">Sezóna zatím nemá žádné výsledky</p>
+        </div>
+      )}
+
+      {!error && !loading && leader && (
+        <>
+          <div className="flex items-center gap-3 p-4 rounded-xl bg-yellow-500/10 border border-yellow-500/20">
+            <Crown className="w-5 h-5 text-yellow-400 flex-shrink-0" />
+            <p className="text-sm text-gray-300">
+              {seasonOver ? 'Mistrem by byl ' : 'V čele by byl '}
+              <span className="font-bold text-white">{leader.name}</span> s {leader.points} b.
+              {officialLeader && (officialLeader[0] === leader.id
+                ? ' — stejně jako podle skutečných pravidel.'
+                : ` — ve skutečnosti ${seasonOver ? 'vyhrál' : 'vede'} ${officialLeader[1].name}.`)}
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            {rows.map((row, index) => (
+              <RescoredRowView key={row.id} row={row} position={index + 1} season={season} kind={kind} />
+            ))}
+          </div>
+        </>
+      )}
+
+      <p className="text-[11px] text-gray-500 leading-relaxed">
+        Body jsou spočítané znovu z výsledků jednotlivých závodů. Bod za nejrychlejší kolo dostane jen jezdec, který
+        dojel na bodované pozici; při rovnosti bodů rozhoduje víc vítězství, druhých míst atd. Škrtání nejhorších
+        výsledků, sdílená auta ani starší pravidla poháru konstruktérů se nezohledňují.
+      </p>
+    </div>
+  );
+}
+
+function RescoredRowView({
+  row,
+  position,
+  season,
+  kind,
+}: {
+  row: RescoredRow;
+  position: number;
+  season: string | undefined;
+  kind: "drivers" | "constructors";
+}) {
+  const change = row.officialPosition === undefined ? 0 : row.officialPosition - position;
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-xl bg-white/[0.02] border border-white/5">
+      <span className="w-6 text-center text-sm font-black text-gray-500">{position}</span>
+      <span className="w-8 flex items-center text-[11px] font-bold tabular-nums">
+        {change > 0 && <span className="flex items-center text-emerald-400"><CaretUp className="w-3 h-3" />{change}</span>}
+        {change < 0 && <span className="flex items-center text-red-400"><CaretDown className="w-3 h-3" />{-change}</span>}
+      </span>
+      <span className="w-1 h-8 rounded-full flex-shrink-0" style={{ backgroundColor: getTeamColor(row.team) }} />
+      <div className="flex-1 min-w-0">
+        {kind === "drivers" ? (
+          <DriverLink driverId={row.id} season={season} className="block text-sm font-bold text-white truncate">
+            {row.name}
+          </DriverLink>
+        ) : (
+          <ConstructorLink constructorId={row.id} season={season} className="block text-sm font-bold text-white truncate">
+            {row.name}
+          </ConstructorLink>
+        )}
+        {kind === "drivers" && <p className="text-xs text-gray-600 truncate">{row.team.name}</p>}
+      </div>
+      <div className="text-right">
+        <p className="text-white font-bold tabular-nums">{row.points}</p>
+        {row.officialPoints !== undefined && (
+          <p className="text-[11px] text-gray-500 tabular-nums">skutečně {row.officialPoints}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ChoiceButton({ active, onClick, children }: { active: boolean; onClick: () => void; children: string }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${active
+        ? 'bg-white/10 border-white/20 text-white'
+        : 'border-white/5 text-gray-400 hover:bg-white/5'
+        }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+// Free-form points table, applied once it parses
+function TableInput({ label, table, onChange }: { label: string; table: number[]; onChange: (table: number[]) => void }) {
+  const [value, setValue] = useState(formatPointsTable(table));
+  const valid = parsePointsTable(value) !== null;
+
+  return (
+    <label className="block space-y-1">
+      <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500">{label}</span>
+      <input
+        value={value}
+        onChange={(event) => {
+          setValue(event.target.value);
+          const parsed = parsePointsTable(event.target.value);
+          if (parsed) onChange(parsed);
+        }}
+        placeholder="25-18-15-12-10"
+        className={`w-full h-9 px-3 rounded-lg bg-white/5 border text-sm text-white tabular-nums focus:outline-none focus:ring-1 focus:ring-f1-red/50 ${valid ? 'border-white/10' : 'border-red-500/50'}`}
+      />
+    </label>
+  );
+}
@@ -0,0 +1,39 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FIRST_SEASON } from "@/services/f1Service";
+import { ClockCounterClockwise } from "@phosphor-icons/react";
+
+interface SeasonSelectProps {
+  season: string | undefined;
+  currentSeason: string | undefined;
+  onSeasonChange: (season: string) => void;
+}
+
+export function SeasonSelect({ season, currentSeason, onSeasonChange }: SeasonSelectProps) {
+  const latest = Number(currentSeason || season || new Date().getFullYear());
+  const seasons = Array.from({ length: latest - FIRST_SEASON + 1 }, (_, i) => String(latest - i));
+
+  return (
+    <Select value={season} onValueChange={onSeasonChange} disabled={!season}>
+      <SelectTrigger
+        aria-label="Vybrat sezónu"
+        className="w-[7.5rem] h-9 rounded-xl bg-white/5 border-white/10 text-sm font-semibold text-white focus:ring-f1-red/50 focus:ring-offset-0"
+      >
+        <div className="flex items-center gap-2">
+          <ClockCounterClockwise className="w-4 h-4 text-f1-red" />
+          <SelectValue placeholder="Sezóna" />
+        </div>
+      </SelectTrigger>
+      <SelectContent className="max-h-72 bg-[#151515] border-white/10 text-white">
+        {seasons.map((year) => (
+          <SelectItem
+            key={year}
+            value={year}
+            className="focus:bg-white/10 focus:text-white"
+          >
+            {year}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,29 @@
+import { format, isToday } from "date-fns";
+import { cs } from "date-fns/locale";
+import { CloudSlash, ClockCounterClockwise } from "@phosphor-icons/react";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+
+interface StaleDataIndicatorProps {
+  updatedAt: number | null;
+  refreshFailed?: boolean;
+  className?: string;
+}
+
+// Tells the user they're looking at a saved snapshot rather than live data
+export function StaleDataIndicator({ updatedAt, refreshFailed = false, className = "" }: StaleDataIndicatorProps) {
+  const online = useOnlineStatus();
+
+  if (!updatedAt || (online && !refreshFailed)) return null;
+
+  const Icon = online ? ClockCounterClockwise : CloudSlash;
+  const timestamp = format(updatedAt, isToday(updatedAt) ? "HH:mm" : "d. MMMM HH:mm", { locale: cs });
+
+  return (
+    <div className={`inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-amber-500/10 border border-amber-500/20 text-amber-300 text-xs font-medium ${className}`}>
+      <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+      <span>
+        {online ? "Data se nepodařilo aktualizovat" : "Offline"} · data z {timestamp}
+      </span>
+    </div>
+  );
+}
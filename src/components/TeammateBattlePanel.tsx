@@ -0,0 +1,125 @@
+import { useMemo } from "react";
+import {
+  useConstructorQualifying,
+  useConstructorResults,
+  useConstructorSprints,
+  useDriverStandings,
+  type Constructor,
+} from "@/services/f1Service";
+import { getTeamRoster, getTeammateBattles, type HeadToHeadCount, type TeammateBattle } from "@/lib/teammateBattle";
+import { getTeamColor } from "@/lib/teamColors";
+import { DriverLink } from "./DriverLink";
+
+interface TeammateBattlePanelProps {
+  season: string | undefined;
+  constructor: Constructor;
+}
+
+// Opacity of the second driver's share, so both halves stay in the team colour
+const SECOND_DRIVER_OPACITY = 0.4;
+
+export function TeammateBattlePanel({ season, constructor }: TeammateBattlePanelProps) {
+  const { constructorId } = constructor;
+  const { standings, loading: standingsLoading } = useDriverStandings(season);
+  const { races, loading: racesLoading, error } = useConstructorResults(constructorId, { season }, !!season);
+  const { sprints, loading: sprintsLoading } = useConstructorSprints(season, constructorId);
+  const { races: qualifying, loading: qualifyingLoading } = useConstructorQualifying(season, constructorId);
+
+  const battles = useMemo(
+    () => getTeammateBattles(getTeamRoster(constructorId, standings, races), races, sprints, qualifying),
+    [constructorId, standings, races, sprints, qualifying]
+  );
+  const color = getTeamColor(constructor);
+
+  if (standingsLoading || racesLoading || sprintsLoading || qualifyingLoading) {
+    return <div className="h-40 bg-white/5 rounded-xl animate-pulse" />;
+  }
+
+  if (error) {
+    return (
+      <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+        <p className="text-red-400 text-sm">Nepodařilo se načíst souboj týmových kolegů</p>
+      </div>
+    );
+  }
+
+  if (battles.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">Tým zatím nemá dvojici jezdců, kterou by šlo porovnat</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {battles.map((battle) => (
+        <BattleCard key={`${battle.a.driverId}-${battle.b.driverId}`} battle={battle} color={color} season={season} />
+      ))}
+      {battles.length > 1 && (
+        <p className="text-[11px] text-gray-500 px-1">
+          Tým během sezóny měnil jezdce, každá dvojice se počítá jen ze společných víkendů. Body jsou za celou sezónu v týmu.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function BattleCard({ battle, color, season }: { battle: TeammateBattle; color: string; season: string | undefined }) {
+  const { a, b, averageGapMs } = battle;
+  const faster = averageGapMs === null || averageGapMs === 0 ? null : averageGapMs < 0 ? a : b;
+
+  return (
+    <div className="p-4 rounded-xl bg-white/[0.02] border border-white/5 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <DriverLink driverId={a.driverId} season={season} className="text-sm font-bold text-white truncate">
+          {a.givenName} {a.familyName}
+        </DriverLink>
+        <span className="text-[10px] font-bold uppercase tracking-wider text-gray-600">vs</span>
+        <DriverLink driverId={b.driverId} season={season} className="text-sm font-bold text-white truncate text-right">
+          {b.givenName} {b.familyName}
+        </DriverLink>
+      </div>
+
+      <SplitBar label="Kvalifikace" count={battle.qualifying} color={color} />
+      <SplitBar label="Závody (oba v cíli)" count={battle.race} color={color} />
+      <SplitBar label="Body" count={battle.points} color={color} />
+
+      <p className="text-xs text-gray-400">
+        {faster ? (
+          <>
+            Průměrný rozdíl v kvalifikaci:{' '}
+            <span className="font-bold text-white">{faster.familyName}</span> rychlejší o{' '}
+            <span className="font-bold text-white tabular-nums">{Math.abs(averageGapMs)} ms</span>
+            <span className="text-gray-600"> ({battle.gapRounds} kvalifikací)</span>
+          </>
+        ) : (
+          'Kvalifikační časy nejsou k dispozici'
+        )}
+      </p>
+    </div>
+  );
+}
+
+function SplitBar({ label, count, color }: { label: string; count: Pick<HeadToHeadCount, "a" | "b">; color: string }) {
+  const total = count.a + count.b;
+  const share = total > 0 ? (count.a / total) * 100 : 50;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="font-black text-white tabular-nums">{count.a}</span>
+        <span className="text-gray-500">{label}</span>
+        <span className="font-black text-white tabular-nums">{count.b}</span>
+      </div>
+      <div className="flex h-1.5 rounded-full overflow-hidden bg-white/10">
+        {total > 0 && (
+          <>
+            <div style={{ width: `${share}%`, backgroundColor: color }} />
+            <div style={{ width: `${100 - share}%`, backgroundColor: color, opacity: SECOND_DRIVER_OPACITY }} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
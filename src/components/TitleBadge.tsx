@@ -0,0 +1,25 @@
+import type { TitleOutlook } from "@/lib/championship";
+import { Crown, XCircle, Target } from "@phosphor-icons/react";
+
+const BADGES = {
+  champion: { label: "Mistr světa", icon: Crown, className: "bg-yellow-500/15 border-yellow-500/30 text-yellow-400" },
+  clinched: { label: "Titul jistý", icon: Crown, className: "bg-yellow-500/15 border-yellow-500/30 text-yellow-400" },
+  contender: { label: "Ve hře", icon: Target, className: "bg-emerald-500/10 border-emerald-500/30 text-emerald-400" },
+  eliminated: { label: "Bez šance", icon: XCircle, className: "bg-white/5 border-white/10 text-gray-500" },
+};
+
+// Title chances of one standings entry, from `useChampionshipMath`
+export function TitleBadge({ outlook }: { outlook: TitleOutlook | undefined }) {
+  if (!outlook) return null;
+  const { label, icon: Icon, className } = BADGES[outlook.status];
+
+  return (
+    <span
+      title={outlook.status === "champion" ? undefined : `Maximum: ${outlook.maxPoints} b.`}
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md border text-[10px] font-bold uppercase tracking-wide whitespace-nowrap ${className}`}
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { RECENT_RACES, type EntryForecast, type ForecastResult } from "@/lib/forecast";
+import { ChartBar, DiceFive } from "@phosphor-icons/react";
+
+interface ForecastControlsProps {
+  result: ForecastResult | null;
+  running: boolean;
+  error: string | null;
+  seed: number;
+  onSeedChange: (seed: number) => void;
+}
+
+const formatPercent = (odds: number) =>
+  odds === 0 ? '0 %' : odds < 0.001 ? '<0,1 %' : `${(odds * 100).toFixed(1).replace(".", ",")} %`;
+
+// Title odds of one standings entry, from `useForecast`
+export function TitleOdds({
+  forecast,
+  color,
+  className = "",
+}: {
+  forecast: EntryForecast | undefined;
+  color: string;
+  className?: string;
+}) {
+  if (!forecast) return null;
+  const likeliest = forecast.positionOdds.reduce(
+    (best, odds, index) => (odds > forecast.positionOdds[best] ? index : best),
+    0
+  );
+
+  return (
+    <div
+      className={`flex items-center gap-2 max-w-xs ${className}`}
+      title={`Nejspíš ${likeliest + 1}. místo (${formatPercent(forecast.positionOdds[likeliest])}), očekávaně ${Math.round(forecast.expectedPoints)} b.`}
+    >
+      <span className="text-[10px] font-bold uppercase tracking-wider text-gray-500">Titul</span>
+      <span className="flex-1 h-1.5 min-w-12 rounded-full bg-white/10 overflow-hidden">
+        <span className="block h-full rounded-full" style={{ width: `${forecast.titleOdds * 100}%`, backgroundColor: color }} />
+      </span>
+      <span className="w-12 text-right text-[11px] font-bold text-white tabular-nums">{formatPercent(forecast.titleOdds)}</span>
+      <span className="hidden sm:inline text-[11px] text-gray-500 tabular-nums whitespace-nowrap">
+        ≈ {Math.round(forecast.expectedPoints)} b.
+      </span>
+    </div>
+  );
+}
+
+// Status, seed and method of the forecast shown in the standings rows
+export function ForecastControls({ result, running, error, seed, onSeedChange }: ForecastControlsProps) {
+  const [seedInput, setSeedInput] = useState(String(seed));
+
+  const applySeed = (value: number) => {
+    onSeedChange(value);
+    setSeedInput(String(value));
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-white/[0.02] border border-white/5 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <ChartBar className="w-5 h-5 text-f1-red flex-shrink-0" />
+        <p className="flex-1 min-w-0 text-xs text-gray-400">
+          {error
+            ? <span className="text-red-400">Předpověď se nepodařilo spočítat</span>
+            : result && !running
+              ? `Šance na titul z ${result.iterations.toLocaleString("cs")} simulací zbytku sezóny, seed ${result.seed}`
+              : 'Simuluji zbytek sezóny…'}
+        </p>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            const value = Number(seedInput);
+            if (Number.isInteger(value)) applySeed(value);
+          }}
+        >
+          <input
+            aria-label="Seed"
+            inputMode="numeric"
+            value={seedInput}
+            onChange={(event) => setSeedInput(event.target.value)}
+            className="w-24 h-8 px-2 rounded-lg bg-white/5 border border-white/10 text-xs text-white tabular-nums focus:outline-none focus:ring-1 focus:ring-f1-red/50"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 text-gray-300 hover:bg-white/5 hover:text-white transition-all"
+          >
+            Přepočítat
+          </button>
+          <button
+            type="button"
+            title="Náhodný seed"
+            aria-label="Náhodný seed"
+            onClick={() => applySeed(Math.floor(Math.random() * 1_000_000))}
+            className="p-1.5 rounded-lg border border-white/10 text-gray-300 hover:bg-white/5 hover:text-white transition-all"
+          >
+            <DiceFive className="w-4 h-4" />
+          </button>
+        </form>
+      </div>
+
+      <p className="text-[11px] text-gray-500 leading-relaxed">
+        Každá simulace dojede všechna zbývající kola: v každém závodě a sprintu si jezdec náhodně „vylosuje“ jeden
+        ze svých posledních {RECENT_RACES} výsledků (včetně nedojetí) a podle losu se seřadí pořadí a přidělí body.
+        Zbývající kola jedou jen jezdci z posledního závodu, nejvýš dva za tým. Body týmu jsou součtem jeho jezdců. Šance je podíl simulací, v nichž jezdec nebo tým skončil první, očekávané body
+        jsou průměr konečného součtu. Stejný seed dá se stejnými daty vždy stejný výsledek. Model nezná vývoj vozů,
+        tresty ani bod za nejrychlejší kolo.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { useMemo } from "react"
+import { useConstructorStandings, useDriverStandings, useRaceSchedule } from "@/services/f1Service"
+import { getChampionshipMath, type ChampionshipEntry } from "@/lib/championship"
+import { getPointsRules } from "@/lib/pointsRules"
+
+// Who can still win the drivers' or constructors' title of `season`; null
+// until the standings and schedule are in
+export function useChampionshipMath(season: string | undefined, kind: "drivers" | "constructors") {
+  const { schedule } = useRaceSchedule(season)
+  const { standings: driverStandings, round: driverRound } = useDriverStandings(kind === "drivers" ? season : undefined)
+  const { standings: constructorStandings, round: constructorRound } =
+    useConstructorStandings(kind === "constructors" ? season : undefined)
+  const standingsRound = kind === "drivers" ? driverRound : constructorRound
+
+  return useMemo(() => {
+    const entries: ChampionshipEntry[] = kind === "drivers"
+      ? driverStandings.map((standing) => ({
+        id: standing.Driver.driverId,
+        name: `${standing.Driver.givenName} ${standing.Driver.familyName}`,
+        points: standing.points,
+      }))
+      : constructorStandings.map((standing) => ({
+        id: standing.Constructor.constructorId,
+        name: standing.Constructor.name,
+        points: standing.points,
+      }))
+    if (!season || entries.length === 0 || schedule.length === 0 || standingsRound === undefined) return null
+    return getChampionshipMath(entries, schedule, standingsRound, getPointsRules(season), kind === "drivers" ? 1 : 2)
+  }, [season, kind, schedule, driverStandings, constructorStandings, standingsRound])
+}
@@ -0,0 +1,88 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import {
+  useConstructorStandings,
+  useDriverStandings,
+  useRaceSchedule,
+  useSeasonResults,
+} from "@/services/f1Service"
+import { getRemainingRaces } from "@/lib/championship"
+import { buildForecastInput, DEFAULT_ITERATIONS, type ForecastResult } from "@/lib/forecast"
+import { getPointsRules } from "@/lib/pointsRules"
+import type { ForecastRequest, ForecastResponse } from "@/workers/forecast.worker"
+
+interface ForecastState {
+  result: ForecastResult | null
+  running: boolean
+  error: string | null
+}
+
+// A fixed default keeps everyone's numbers the same until they reseed
+const DEFAULT_SEED = 1
+
+// Monte Carlo forecast of the rest of `season`, computed in a worker so the
+// page stays responsive. The same seed and data always give the same numbers.
+// Finished seasons fetch nothing extra and start no worker.
+export function useForecast(season: string | undefined) {
+  const [seed, setSeed] = useState(DEFAULT_SEED)
+  const { schedule } = useRaceSchedule(season)
+  const { standings: driverStandings, round: standingsRound } = useDriverStandings(season)
+  // Rounds not in the standings yet, whether or not they've been run
+  const remaining = useMemo(
+    () => (standingsRound === undefined ? [] : getRemainingRaces(schedule, standingsRound)),
+    [schedule, standingsRound]
+  )
+  const { standings: constructorStandings } = useConstructorStandings(season)
+  // Nothing to forecast once the season is over
+  const available = !!season && remaining.length > 0 && driverStandings.length > 0
+  const { races: results, updatedAt, error: resultsError } = useSeasonResults(season, available)
+
+  const input = useMemo(() => {
+    if (!season || !available || !updatedAt) return null
+    return buildForecastInput(driverStandings, constructorStandings, results, remaining, getPointsRules(season))
+  }, [season, available, updatedAt, driverStandings, constructorStandings, results, remaining])
+  // Refetches hand back equal data as new objects; only new numbers rerun it
+  const inputKey = useMemo(() => (input ? JSON.stringify(input) : null), [input])
+
+  const [state, setState] = useState<ForecastState>({ result: null, running: false, error: null })
+  const workerRef = useRef<Worker | null>(null)
+  const inputRef = useRef(input)
+  inputRef.current = input
+  // Answers to anything but the latest request are stale
+  const latestRequest = useRef(0)
+
+  useEffect(() => {
+    if (!available) return
+    const worker = new Worker(new URL("../workers/forecast.worker.ts", import.meta.url), { type: "module" })
+    worker.onmessage = (event: MessageEvent<ForecastResponse>) => {
+      const response = event.data
+      if (response.id !== latestRequest.current) return
+      setState("result" in response
+        ? { result: response.result, running: false, error: null }
+        : { result: null, running: false, error: response.error })
+    }
+    workerRef.current = worker
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [available])
+
+  useEffect(() => {
+    if (!inputKey || !inputRef.current || !workerRef.current) return
+    const request: ForecastRequest = {
+      id: ++latestRequest.current,
+      input: inputRef.current,
+      options: { iterations: DEFAULT_ITERATIONS, seed },
+    }
+    setState((current) => ({ ...current, running: true, error: null }))
+    workerRef.current.postMessage(request)
+  }, [inputKey, seed])
+
+  return {
+    ...state,
+    seed,
+    setSeed,
+    available,
+    error: state.error ?? (available ? resultsError : null),
+  }
+}
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react"
+import { onlineManager } from "@tanstack/react-query"
+
+// Same notion of "online" that TanStack Query uses to pause fetching
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    (onChange) => onlineManager.subscribe(onChange),
+    () => onlineManager.isOnline()
+  )
+}
@@ -0,0 +1,25 @@
+import { useMemo } from "react"
+import { useSeasonResults, useSeasonSprints } from "@/services/f1Service"
+import { getSystemRules, type PointsSystem } from "@/lib/pointsRules"
+import { rescoreSeason } from "@/lib/rescore"
+
+// `season` re-scored under `system`; nothing is fetched while `system` is
+// null, so the raw results only load once a table switches to rescored mode
+export function useRescoredStandings(season: string | undefined, system: PointsSystem | null) {
+  const enabledSeason = system ? season : undefined
+  const results = useSeasonResults(enabledSeason)
+  const withSprints = !!system?.sprints
+  const sprints = useSeasonSprints(withSprints ? enabledSeason : undefined)
+
+  const standings = useMemo(
+    () => (system ? rescoreSeason(results.races, sprints.sprints, getSystemRules(system)) : null),
+    [system, results.races, sprints.sprints]
+  )
+
+  return {
+    standings,
+    // A disabled query reads as pending, so sprints only count when asked for
+    loading: results.loading || (withSprints && sprints.loading),
+    error: results.error ?? (withSprints ? sprints.error : null),
+  }
+}
@@ -0,0 +1,45 @@
+import { useCallback } from "react"
+import { useMatch, useNavigate, useParams, useSearchParams } from "react-router-dom"
+import { FIRST_SEASON, useCurrentSeason } from "@/services/f1Service"
+import { sectionPath } from "@/lib/routes"
+
+// Links shared before seasons moved into the path used `?season=`
+const LEGACY_SEASON_PARAM = "season"
+
+export function isValidSeason(value: string | null | undefined, currentSeason: string) {
+  if (!value || !/^\d{4}$/.test(value)) return false
+  const year = Number(value)
+  return year >= FIRST_SEASON && year <= Number(currentSeason)
+}
+
+// Selected season is the first path segment (`/2024/drivers`); without one the
+// current season is used. `invalid` flags a segment that isn't a known season.
+export function useSeason() {
+  const params = useParams()
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const { currentSeason, loading } = useCurrentSeason()
+  const onDrivers = useMatch("/:season/drivers")
+  const onConstructors = useMatch("/:season/constructors")
+  const requested = params.season ?? searchParams.get(LEGACY_SEASON_PARAM)
+
+  // A season from the URL can be used before /current resolves
+  const latestSeason = currentSeason ?? String(new Date().getFullYear() + 1)
+  const valid = isValidSeason(requested, latestSeason)
+  const season = valid ? requested : currentSeason
+
+  // Switching seasons keeps the section on screen but closes any open race
+  const setSeason = useCallback((next: string) => {
+    const section = onDrivers ? "drivers" : onConstructors ? "constructors" : "calendar"
+    navigate(sectionPath(next, section))
+  }, [navigate, onDrivers, onConstructors])
+
+  return {
+    season,
+    currentSeason,
+    isCurrentSeason: !!season && season === currentSeason,
+    setSeason,
+    loading,
+    invalid: !!params.season && !valid,
+  }
+}
@@ -0,0 +1,123 @@
+import { addDays, addMinutes, format, isValid, parseISO } from "date-fns"
+import type { Race } from "@/services/f1Service"
+
+// Which sessions of the season go into the calendar
+export type CalendarScope = "all" | "races" | "sprintWeekends"
+
+type SessionKey = "fp1" | "fp2" | "fp3" | "sprintQualifying" | "sprint" | "qualifying" | "race"
+
+export interface RaceSession {
+  key: SessionKey
+  title: string
+  date: string
+  time: string | undefined
+  // Typical length in minutes; calendars need an end
+  duration: number
+}
+
+// Host part of every UID; with the season, round and session it keeps an
+// event's UID the same across exports so a re-import updates it in place
+const UID_DOMAIN = "f1.stvr.cz"
+
+export function getRaceSessions(race: Race): RaceSession[] {
+  const session = (key: SessionKey, title: string, duration: number, at: Race["Qualifying"]): RaceSession[] =>
+    at ? [{ key, title, date: at.date, time: at.time, duration }] : []
+
+  return [
+    ...session("fp1", "1. trénink", 60, race.FirstPractice),
+    ...session("sprintQualifying", "Kvalifikace sprintu", 45, race.SprintQualifying),
+    ...session("sprint", "Sprint", 60, race.Sprint),
+    ...session("fp2", "2. trénink", 60, race.SecondPractice),
+    ...session("fp3", "3. trénink", 60, race.ThirdPractice),
+    ...session("qualifying", "Kvalifikace", 60, race.Qualifying),
+    ...session("race", "Závod", 120, { date: race.date, time: race.time }),
+  ]
+}
+
+// RFC 5545 text: backslashes, separators and line breaks are escaped
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")
+
+// Content lines are folded at 75 octets, continuing on a line that starts with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ""
+  let octets = 0
+  for (const char of line) {
+    const size = encoder.encode(char).length
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ""
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join("\r\n ")
+}
+
+function sessionEvent(race: Race, session: RaceSession, stamp: string): string[] {
+  const start = parseISO(`${session.date}T${session.time ?? "00:00:00Z"}`)
+  if (!isValid(start)) return []
+  const { Location } = race.Circuit
+  const lat = Number(Location.lat)
+  const long = Number(Location.long)
+
+  // Historic schedules have no session times; those become all-day events
+  const when = session.time
+    ? [`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(addMinutes(start, session.duration))}`]
+    : [
+      `DTSTART;VALUE=DATE:${session.date.replace(/-/g, "")}`,
+      `DTEND;VALUE=DATE:${format(addDays(parseISO(session.date), 1), "yyyyMMdd")}`,
+    ]
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${race.season}-${race.round}-${session.key}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    ...when,
+    `SUMMARY:${escapeText(`${race.raceName} – ${session.title}`)}`,
+    `LOCATION:${escapeText(`${race.Circuit.circuitName}, ${Location.locality}, ${Location.country}`)}`,
+    ...(Number.isFinite(lat) && Number.isFinite(long) ? [`GEO:${lat};${long}`] : []),
+    ...(race.url ? [`URL:${race.url}`] : []),
+    "END:VEVENT",
+  ]
+}
+
+const inScope = (race: Race, session: RaceSession, scope: CalendarScope) =>
+  scope === "races" ? session.key === "race" : scope === "sprintWeekends" ? !!race.Sprint : true
+
+// An iCalendar file with one event per session of `races`, times in UTC
+export function buildCalendar(races: Race[], scope: CalendarScope, name: string): string {
+  const stamp = formatUtc(new Date())
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:-//${UID_DOMAIN}//F1 kalendar//CS`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...races.flatMap((race) =>
+      getRaceSessions(race)
+        .filter((session) => inScope(race, session, scope))
+        .flatMap((session) => sessionEvent(race, session, stamp))
+    ),
+    "END:VCALENDAR",
+  ]
+  return lines.map(foldLine).join("\r\n") + "\r\n"
+}
+
+// Hands the file to the browser as a download
+export function downloadCalendar(ics: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([ics], { type: "text/calendar;charset=utf-8" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -0,0 +1,90 @@
+import type { Constructor, DriverSeasonStanding, RaceResult, RaceWithResults } from "@/services/f1Service"
+
+export interface CareerTotals {
+  starts: number
+  wins: number
+  poles: number
+  podiums: number
+  points: number
+  titles: number
+}
+
+// Failed to qualify / withdrawn entries are in the results but never started
+export const isStart = (result: RaceResult) => !["F", "W"].includes(result.positionText)
+
+// Jolpica has no pole flag; starting from grid slot 1 is the closest record
+// and also covers seasons without qualifying data
+export const isPole = (result: RaceResult) => result.grid === 1
+
+export const isPodium = (result: RaceResult) => /^\d+$/.test(result.positionText) && result.position <= 3
+
+// Points come from the final standings so dropped scores and sprints count as
+// officially awarded. A season still being raced doesn't count as a title.
+export function getCareerTotals(
+  results: RaceResult[],
+  seasons: DriverSeasonStanding[],
+  ongoingSeason?: string
+): CareerTotals {
+  return {
+    starts: results.filter(isStart).length,
+    wins: results.filter((result) => result.position === 1 && result.positionText === "1").length,
+    poles: results.filter(isPole).length,
+    podiums: results.filter(isPodium).length,
+    points: seasons.reduce((sum, season) => sum + season.standing.points, 0),
+    titles: seasons.filter((season) => season.standing.position === 1 && season.season !== ongoingSeason).length,
+  }
+}
+
+export interface TeamSpell {
+  from: string
+  to: string
+  constructors: Constructor[]
+}
+
+// Consecutive seasons with the same team(s) folded into one spell
+export function getTeamSpells(seasons: DriverSeasonStanding[]): TeamSpell[] {
+  const spells: TeamSpell[] = []
+  const key = (constructors: Constructor[]) => constructors.map((c) => c.constructorId).join("+")
+
+  for (const { season, standing } of seasons) {
+    const last = spells[spells.length - 1]
+    if (last && key(last.constructors) === key(standing.Constructors) && Number(last.to) + 1 === Number(season)) {
+      last.to = season
+    } else {
+      spells.push({ from: season, to: season, constructors: standing.Constructors })
+    }
+  }
+  return spells
+}
+
+export interface ConstructorSeasonTally {
+  wins: number
+  poles: number
+  oneTwos: number
+}
+
+// Wins, poles and 1-2 finishes per season from a constructor's P1, P2 and
+// grid-1 results; a 1-2 is a race that appears among both its wins and seconds
+export function getConstructorTallies(
+  wins: RaceWithResults[],
+  seconds: RaceWithResults[],
+  poles: RaceWithResults[]
+): Map<string, ConstructorSeasonTally> {
+  const tallies = new Map<string, ConstructorSeasonTally>()
+  const tally = (season: string) => {
+    const existing = tallies.get(season) ?? { wins: 0, poles: 0, oneTwos: 0 }
+    tallies.set(season, existing)
+    return existing
+  }
+  const raceKey = (race: RaceWithResults) => `${race.season}/${race.round}`
+  const secondPlaces = new Set(seconds.map(raceKey))
+
+  for (const race of wins) {
+    tally(race.season).wins += race.Results.length
+    if (secondPlaces.has(raceKey(race))) tally(race.season).oneTwos++
+  }
+  for (const race of poles) {
+    tally(race.season).poles += race.Results.length
+  }
+  return tallies
+}
@@ -0,0 +1,155 @@
+import type { Race } from "@/services/f1Service"
+import { addHours, isValid, parseISO } from "date-fns"
+import { earnsFastestLap, getMaxWeekendPoints, pointsFor, type PointsRules } from "@/lib/pointsRules"
+
+// Standings for a round are published a little after the flag
+export const hasRaceFinished = (race: Race) => {
+  const start = parseISO(`${race.date}T${race.time || "00:00:00Z"}`)
+  return isValid(start) && addHours(start, 3) < new Date()
+}
+
+// Rounds still to be scored: everything after the round the standings were
+// computed after. Going by the clock instead would count a finished round as
+// done hours before its points reach the standings.
+export const getRemainingRaces = (schedule: Race[], standingsRound: number) =>
+  schedule.filter((race) => race.round > standingsRound)
+
+// A driver or constructor reduced to what the title maths needs
+export interface ChampionshipEntry {
+  id: string
+  name: string
+  points: number
+}
+
+// "champion" once the season is over; "clinched" when the title is settled
+// with rounds still to go
+export type TitleStatus = "champion" | "clinched" | "contender" | "eliminated"
+
+export interface TitleOutlook {
+  name: string
+  status: TitleStatus
+  // Points now plus everything still on offer
+  maxPoints: number
+  behindLeader: number
+}
+
+export interface ClinchCondition {
+  rival: ChampionshipEntry
+  // Points the leader must outscore this rival by over the next weekend
+  margin: number
+}
+
+export interface ClinchByPosition {
+  leaderPosition: number
+  leaderPoints: number
+  // Best finish each rival (in `conditions` order) may take; 0 = anything
+  rivalLimits: number[]
+}
+
+export interface ClinchScenario {
+  race: Race
+  withSprint: boolean
+  possible: boolean
+  // Rivals whose result can still stop the leader clinching
+  conditions: ClinchCondition[]
+  // Race-by-race breakdown, only for drivers on weekends without a sprint
+  positions: ClinchByPosition[]
+}
+
+export interface ChampionshipMath {
+  remainingRaces: Race[]
+  remainingSprints: number
+  // Most a single entry can still add
+  remainingMax: number
+  leader: ChampionshipEntry | null
+  // Every entry while the season runs, only the champion once it's over
+  outlook: Map<string, TitleOutlook>
+  nextRound: ClinchScenario | null
+}
+
+// `entries` are the standings after `standingsRound`; later rounds, sprint
+// included, count as remaining
+export function getChampionshipMath(
+  entries: ChampionshipEntry[],
+  schedule: Race[],
+  standingsRound: number,
+  rules: PointsRules,
+  cars: 1 | 2
+): ChampionshipMath {
+  const remainingRaces = getRemainingRaces(schedule, standingsRound)
+  const weekendMax = (race: Race) => getMaxWeekendPoints(rules, !!race.Sprint && rules.sprint.length > 0, cars)
+  const remainingMax = remainingRaces.reduce((sum, race) => sum + weekendMax(race), 0)
+  const remainingSprints = remainingRaces.filter((race) => race.Sprint && rules.sprint.length > 0).length
+
+  const sorted = [...entries].sort((a, b) => b.points - a.points)
+  const leader = sorted[0] ?? null
+  const bestRival = sorted[1]
+  const seasonOver = remainingRaces.length === 0 && schedule.length > 0
+  const clinched = !!leader && (!bestRival || leader.points > bestRival.points + remainingMax)
+
+  const outlook = new Map<string, TitleOutlook>()
+  for (const entry of sorted) {
+    // A finished season only has its champion to show
+    if (seasonOver && entry !== leader) continue
+    const maxPoints = entry.points + remainingMax
+    const isLeader = entry === leader
+    let status: TitleStatus
+    if (isLeader) status = seasonOver ? "champion" : clinched ? "clinched" : "contender"
+    else status = maxPoints < (leader?.points ?? 0) || clinched ? "eliminated" : "contender"
+    outlook.set(entry.id, { name: entry.name, status, maxPoints, behindLeader: (leader?.points ?? 0) - entry.points })
+  }
+
+  const nextRace = remainingRaces[0]
+  const nextRound = leader && nextRace && !clinched
+    ? getClinchScenario(leader, sorted.slice(1), nextRace, remainingMax - weekendMax(nextRace), weekendMax(nextRace), rules, cars)
+    : null
+
+  return { remainingRaces, remainingSprints, remainingMax, leader, outlook, nextRound }
+}
+
+// The leader is champion after the next weekend when, for every rival,
+// leader + gained > rival + rivalGained + everything left afterwards. A tie
+// goes to countback, which is not counted as clinching.
+function getClinchScenario(
+  leader: ChampionshipEntry,
+  rivals: ChampionshipEntry[],
+  race: Race,
+  remainingAfter: number,
+  nextMax: number,
+  rules: PointsRules,
+  cars: 1 | 2
+): ClinchScenario {
+  const withSprint = !!race.Sprint && rules.sprint.length > 0
+  const conditions = rivals
+    .map((rival) => ({ rival, margin: rival.points + remainingAfter - leader.points + 1 }))
+    // A rival who can't stop it even by winning everything while the leader scores nothing drops out
+    .filter((condition) => condition.margin > -nextMax)
+  const possible = conditions.every((condition) => condition.margin <= nextMax)
+
+  const positions: ClinchByPosition[] = []
+  if (possible && cars === 1 && !withSprint) {
+    // Worst case: the fastest lap bonus goes to the rival
+    const rivalGain = (position: number) =>
+      pointsFor(rules.race, position) + (earnsFastestLap(rules, position) ? rules.fastestLap : 0)
+    const lastScoring = rules.race.length
+    // Finishes past this score nothing, not even the fastest lap bonus
+    const lastPaying = rules.fastestLap > 0 ? Math.max(lastScoring, rules.fastestLapWithin ?? lastScoring) : lastScoring
+
+    // One row past the scoring places covers the leader not scoring at all
+    for (let leaderPosition = 1; leaderPosition <= lastScoring + 1; leaderPosition++) {
+      const leaderPoints = pointsFor(rules.race, leaderPosition)
+      const rivalLimits = conditions.map(({ margin }) => {
+        const firstPossible = leaderPosition === 1 ? 2 : 1
+        for (let position = firstPossible; position <= lastPaying + 1; position++) {
+          if (position === leaderPosition) continue
+          if (rivalGain(position) <= leaderPoints - margin) return position === firstPossible ? 0 : position
+        }
+        return -1
+      })
+      if (rivalLimits.some((limit) => limit < 0)) break
+      positions.push({ leaderPosition, leaderPoints, rivalLimits })
+    }
+  }
+
+  return { race, withSprint, possible, conditions, positions }
+}
@@ -0,0 +1,210 @@
+import type { ConstructorStanding, DriverStanding, Race, RaceWithResults } from "@/services/f1Service"
+import type { PointsRules } from "@/lib/pointsRules"
+import { compareByCountback, isClassified, recordFinish, type ScoredEntry } from "@/lib/standings"
+
+// How many of a driver's latest races make up their finishing distribution
+export const RECENT_RACES = 6
+export const DEFAULT_ITERATIONS = 5000
+
+// Drivers without a race this season get a generic back-of-the-field form
+const ROOKIE_FORM = [12, 14, 15, 16, 17, 18]
+// Race seats per team
+const CARS_PER_TEAM = 2
+
+export interface ForecastDriver {
+  id: string
+  // Team their points go to: the latest they drove for
+  teamId: string | undefined
+  // Whether they race the remaining rounds: they started the latest race in
+  // one of their team's two seats. Replaced drivers and one-off starts keep
+  // their points but don't score any more.
+  racing: boolean
+  points: number
+  finishes: number[]
+  // Latest finishing positions, null for a retirement
+  recent: (number | null)[]
+}
+
+export interface ForecastConstructor {
+  id: string
+  points: number
+  finishes: number[]
+}
+
+// Everything the worker needs, plain data so it can be posted across
+export interface ForecastInput {
+  rules: PointsRules
+  remaining: { round: number; sprint: boolean }[]
+  drivers: ForecastDriver[]
+  constructors: ForecastConstructor[]
+}
+
+export interface ForecastOptions {
+  iterations: number
+  seed: number
+}
+
+export interface EntryForecast {
+  id: string
+  titleOdds: number
+  expectedPoints: number
+  // positionOdds[0] = chance of finishing the season first, …
+  positionOdds: number[]
+}
+
+export interface ForecastResult {
+  drivers: EntryForecast[]
+  constructors: EntryForecast[]
+  iterations: number
+  seed: number
+}
+
+export function buildForecastInput(
+  driverStandings: DriverStanding[],
+  constructorStandings: ConstructorStanding[],
+  results: RaceWithResults[],
+  remaining: Race[],
+  rules: PointsRules
+): ForecastInput {
+  // The field of the latest race, at most two cars per team
+  const latest = results.reduce<RaceWithResults | undefined>(
+    (last, race) => (!last || race.round > last.round ? race : last),
+    undefined
+  )
+  const seats = new Map<string, string>()
+  const carsPerTeam = new Map<string, number>()
+  for (const result of latest?.Results ?? []) {
+    const teamId = result.Constructor.constructorId
+    const cars = carsPerTeam.get(teamId) ?? 0
+    if (cars >= CARS_PER_TEAM) continue
+    carsPerTeam.set(teamId, cars + 1)
+    seats.set(result.Driver.driverId, teamId)
+  }
+
+  const drivers = driverStandings.map((standing): ForecastDriver => {
+    const driverId = standing.Driver.driverId
+    const entry = { id: driverId, points: standing.points, finishes: [] as number[] }
+    const recent: (number | null)[] = []
+    for (const race of results) {
+      const result = race.Results.find((r) => r.Driver.driverId === driverId)
+      if (!result) continue
+      if (isClassified(result.positionText)) recordFinish(entry, result.position)
+      recent.push(isClassified(result.positionText) ? result.position : null)
+    }
+    return {
+      ...entry,
+      teamId: seats.get(driverId) ?? standing.Constructors[standing.Constructors.length - 1]?.constructorId,
+      // Before the first race everyone in the standings is on the grid
+      racing: !latest || seats.has(driverId),
+      recent: recent.slice(-RECENT_RACES),
+    }
+  })
+
+  const constructors = constructorStandings.map((standing): ForecastConstructor => {
+    const entry = { id: standing.Constructor.constructorId, points: standing.points, finishes: [] as number[] }
+    for (const race of results) {
+      for (const result of race.Results) {
+        if (result.Constructor.constructorId === entry.id && isClassified(result.positionText)) {
+          recordFinish(entry, result.position)
+        }
+      }
+    }
+    return entry
+  })
+
+  return {
+    rules,
+    remaining: remaining.map((race) => ({ round: race.round, sprint: !!race.Sprint && rules.sprint.length > 0 })),
+    drivers,
+    constructors,
+  }
+}
+
+// mulberry32: tiny, fast and good enough for sampling; the same seed always
+// yields the same sequence, which makes a forecast reproducible
+export function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Each simulated session every racing driver draws one of their recent
+// results; the draws, with a random tie-break, give the finishing order and
+// retirements drop to the back without points
+export function runForecast(input: ForecastInput, { iterations, seed }: ForecastOptions): ForecastResult {
+  const random = createRandom(seed)
+  const { rules, remaining, drivers, constructors } = input
+  const forms = drivers.map((driver) => (driver.recent.length > 0 ? driver.recent : ROOKIE_FORM))
+  const field = drivers.flatMap((driver, index) => (driver.racing ? [index] : []))
+  const teamIndex = new Map(constructors.map((constructor, index) => [constructor.id, index]))
+  const driverTeams = drivers.map((driver) => (driver.teamId ? teamIndex.get(driver.teamId) : undefined))
+
+  const tally = (count: number) => ({
+    titles: new Array<number>(count).fill(0),
+    points: new Array<number>(count).fill(0),
+    positions: Array.from({ length: count }, () => new Array<number>(count).fill(0)),
+  })
+  const driverTally = tally(drivers.length)
+  const constructorTally = tally(constructors.length)
+
+  const session = (driverEntries: ScoredEntry[], teamEntries: ScoredEntry[], table: number[], countsBack: boolean) => {
+    const draws = field.map((index) => {
+      const form = forms[index]
+      const position = form[Math.floor(random() * form.length)]
+      return { index, score: position === null ? Infinity : position + random() }
+    })
+    // Two retirements compare equal; Infinity - Infinity would be NaN
+    draws.sort((a, b) => (a.score === b.score ? 0 : a.score - b.score))
+    draws.forEach(({ index, score }, place) => {
+      if (score === Infinity) return
+      const points = table[place] ?? 0
+      const team = driverTeams[index] === undefined ? undefined : teamEntries[driverTeams[index]]
+      driverEntries[index].points += points
+      if (team) team.points += points
+      if (countsBack) {
+        recordFinish(driverEntries[index], place + 1)
+        if (team) recordFinish(team, place + 1)
+      }
+    })
+  }
+
+  const record = (entries: ScoredEntry[], into: ReturnType<typeof tally>) => {
+    const order = entries.map((entry, index) => ({ entry, index })).sort((a, b) => compareByCountback(a.entry, b.entry))
+    order.forEach(({ entry, index }, position) => {
+      into.points[index] += entry.points
+      into.positions[index][position]++
+      if (position === 0) into.titles[index]++
+    })
+  }
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const driverEntries = drivers.map((driver) => ({ id: driver.id, points: driver.points, finishes: [...driver.finishes] }))
+    const teamEntries = constructors.map((constructor) => ({ id: constructor.id, points: constructor.points, finishes: [...constructor.finishes] }))
+    for (const round of remaining) {
+      if (round.sprint) session(driverEntries, teamEntries, rules.sprint, false)
+      session(driverEntries, teamEntries, rules.race, true)
+    }
+    record(driverEntries, driverTally)
+    record(teamEntries, constructorTally)
+  }
+
+  const summarize = (entries: { id: string }[], from: ReturnType<typeof tally>): EntryForecast[] =>
+    entries.map((entry, index) => ({
+      id: entry.id,
+      titleOdds: from.titles[index] / iterations,
+      expectedPoints: from.points[index] / iterations,
+      positionOdds: from.positions[index].map((count) => count / iterations),
+    }))
+
+  return {
+    drivers: summarize(drivers, driverTally),
+    constructors: summarize(constructors, constructorTally),
+    iterations,
+    seed,
+  }
+}
@@ -0,0 +1,78 @@
+import type { RaceWithQualifying, RaceWithResults } from "@/services/f1Service"
+import { isPodium, isStart } from "@/lib/careerStats"
+import { isClassified } from "@/lib/standings"
+
+export interface SeasonSummary {
+  starts: number
+  wins: number
+  podiums: number
+  dnfs: number
+  // Over classified finishes only
+  averageFinish: number | null
+  // Pit lane starts (grid 0) left out
+  averageGrid: number | null
+}
+
+export interface QualifyingHeadToHead {
+  a: number
+  b: number
+  rounds: number
+}
+
+export interface OverlayRound {
+  round: number
+  a: number | null
+  b: number | null
+  aRace?: string
+  bRace?: string
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+// Races carrying only this driver's result, as from `useDriverResults`
+export function getSeasonSummary(races: RaceWithResults[]): SeasonSummary {
+  const results = races.map((race) => race.Results[0]).filter(Boolean).filter(isStart)
+
+  return {
+    starts: results.length,
+    wins: results.filter((result) => result.positionText === "1").length,
+    podiums: results.filter(isPodium).length,
+    dnfs: results.filter((result) => result.positionText === "R").length,
+    averageFinish: average(results.filter((result) => isClassified(result.positionText)).map((result) => result.position)),
+    averageGrid: average(results.filter((result) => result.grid > 0).map((result) => result.grid)),
+  }
+}
+
+// Rounds are paired by number, so across seasons the nth qualifying of one
+// season is set against the nth of the other
+export function getQualifyingHeadToHead(a: RaceWithQualifying[], b: RaceWithQualifying[]): QualifyingHeadToHead {
+  const bPositions = new Map(b.map((race) => [race.round, race.QualifyingResults[0]?.position]))
+  const tally = { a: 0, b: 0, rounds: 0 }
+
+  for (const race of a) {
+    const aPosition = race.QualifyingResults[0]?.position
+    const bPosition = bPositions.get(race.round)
+    if (!aPosition || !bPosition) continue
+    tally.rounds++
+    if (aPosition < bPosition) tally.a++
+    else if (bPosition < aPosition) tally.b++
+  }
+  return tally
+}
+
+// Finishing positions round by round; null where a driver wasn't classified
+// or didn't take part
+export function getOverlayRounds(a: RaceWithResults[], b: RaceWithResults[]): OverlayRound[] {
+  const rounds = [...new Set([...a, ...b].map((race) => race.round))].sort((x, y) => x - y)
+  const finish = (race: RaceWithResults | undefined) => {
+    const result = race?.Results[0]
+    return result && isClassified(result.positionText) ? result.position : null
+  }
+
+  return rounds.map((round) => {
+    const aRace = a.find((race) => race.round === round)
+    const bRace = b.find((race) => race.round === round)
+    return { round, a: finish(aRace), b: finish(bRace), aRace: aRace?.raceName, bRace: bRace?.raceName }
+  })
+}
@@ -0,0 +1,22 @@
+// Lap and session times arrive as "1:23.456", "83.456" or "1:02:03.456";
+// returns milliseconds, or null for empty strings (no lap set)
+export function parseLapTime(value: string | undefined | null): number | null {
+  if (!value) return null
+  const parts = value.trim().split(":").map(Number)
+  if (parts.length === 0 || parts.some((part) => !Number.isFinite(part))) return null
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0)
+  return Math.round(seconds * 1000)
+}
+
+// 83456 -> "1:23.456"
+export function formatLapTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  const seconds = ((ms % 60000) / 1000).toFixed(3).padStart(6, "0")
+  return minutes > 0 ? `${minutes}:${seconds}` : seconds.replace(/^0(?=\d\.)/, "")
+}
+
+// Signed gap in seconds, e.g. 123 -> "+0.123", -1500 -> "-1.500"
+export function formatGap(ms: number): string {
+  const sign = ms < 0 ? "-" : "+"
+  return `${sign}${(Math.abs(ms) / 1000).toFixed(3)}`
+}
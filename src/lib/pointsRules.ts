@@ -0,0 +1,94 @@
+// How a season awarded championship points. Dropped-score rules (used up to
+// 1990) and shared drives are not modelled.
+export interface PointsRules {
+  // Points by finishing position, winner first
+  race: number[]
+  // Empty before sprints existed
+  sprint: number[]
+  // Bonus for the fastest lap
+  fastestLap: number
+  // Worst finish that still earns the bonus (the top ten from 2019); null
+  // when any finish does, as in the 1950s
+  fastestLapWithin: number | null
+}
+
+const TOP_TEN = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1]
+const SPRINT_TOP_EIGHT = [8, 7, 6, 5, 4, 3, 2, 1]
+
+export function getPointsRules(season: string): PointsRules {
+  const year = Number(season)
+  if (year >= 2025) return { race: TOP_TEN, sprint: SPRINT_TOP_EIGHT, fastestLap: 0, fastestLapWithin: null }
+  if (year >= 2022) return { race: TOP_TEN, sprint: SPRINT_TOP_EIGHT, fastestLap: 1, fastestLapWithin: 10 }
+  if (year === 2021) return { race: TOP_TEN, sprint: [3, 2, 1], fastestLap: 1, fastestLapWithin: 10 }
+  if (year >= 2019) return { race: TOP_TEN, sprint: [], fastestLap: 1, fastestLapWithin: 10 }
+  if (year >= 2010) return { race: TOP_TEN, sprint: [], fastestLap: 0, fastestLapWithin: null }
+  if (year >= 2003) return { race: [10, 8, 6, 5, 4, 3, 2, 1], sprint: [], fastestLap: 0, fastestLapWithin: null }
+  if (year >= 1991) return { race: [10, 6, 4, 3, 2, 1], sprint: [], fastestLap: 0, fastestLapWithin: null }
+  if (year >= 1961) return { race: [9, 6, 4, 3, 2, 1], sprint: [], fastestLap: 0, fastestLapWithin: null }
+  if (year === 1960) return { race: [8, 6, 4, 3, 2, 1], sprint: [], fastestLap: 0, fastestLapWithin: null }
+  return { race: [8, 6, 4, 3, 2], sprint: [], fastestLap: 1, fastestLapWithin: null }
+}
+
+// Points for a 1-based finishing position; 0 outside the scoring places
+export const pointsFor = (table: number[], position: number) => table[position - 1] ?? 0
+
+// Whether the fastest lap bonus would be paid to a driver finishing in `position`
+export const earnsFastestLap = (rules: PointsRules, position: number) =>
+  rules.fastestLap > 0 && position <= (rules.fastestLapWithin ?? Infinity)
+
+// Most a driver (cars = 1) or a team (cars = 2) can score in one weekend
+export function getMaxWeekendPoints(rules: PointsRules, withSprint: boolean, cars: 1 | 2): number {
+  const top = (table: number[]) => table.slice(0, cars).reduce((sum, points) => sum + points, 0)
+  return top(rules.race) + rules.fastestLap + (withSprint ? top(rules.sprint) : 0)
+}
+
+// A points system to re-score a season with: a preset race table, or a
+// custom one, plus whether sprints and the fastest lap score
+export interface PointsSystem {
+  preset: string
+  customRace: number[]
+  customSprint: number[]
+  sprints: boolean
+  fastestLap: boolean
+}
+
+export const CUSTOM_PRESET = "custom"
+
+export const POINTS_PRESETS = [
+  { id: "1961", label: "9-6-4-3-2-1 (1961–1990)", race: [9, 6, 4, 3, 2, 1] },
+  { id: "1991", label: "10-6-4-3-2-1 (1991–2002)", race: [10, 6, 4, 3, 2, 1] },
+  { id: "2003", label: "10-8-6-5-4-3-2-1 (2003–2009)", race: [10, 8, 6, 5, 4, 3, 2, 1] },
+  { id: "2010", label: "25-18-15-… (od 2010)", race: TOP_TEN },
+]
+
+export const DEFAULT_POINTS_SYSTEM: PointsSystem = {
+  preset: "2010",
+  customRace: TOP_TEN,
+  customSprint: SPRINT_TOP_EIGHT,
+  sprints: true,
+  fastestLap: false,
+}
+
+export function getSystemRules(system: PointsSystem): PointsRules {
+  const preset = POINTS_PRESETS.find((candidate) => candidate.id === system.preset)
+  const custom = system.preset === CUSTOM_PRESET
+  const race = custom || !preset ? system.customRace : preset.race
+  return {
+    race,
+    sprint: !system.sprints ? [] : custom ? system.customSprint : SPRINT_TOP_EIGHT,
+    fastestLap: system.fastestLap ? 1 : 0,
+    // Like today's rule, the fastest lap only pays inside the points
+    fastestLapWithin: race.length,
+  }
+}
+
+// "25, 18, 15" or "25-18-15" → [25, 18, 15]; null unless every place is a
+// non-negative number
+export function parsePointsTable(value: string): number[] | null {
+  const places = value.split(/[\s,;-]+/).filter(Boolean)
+  if (places.length === 0) return null
+  const table = places.map(Number)
+  return table.every((points) => Number.isFinite(points) && points >= 0) ? table : null
+}
+
+export const formatPointsTable = (table: number[]) => table.join("-")
@@ -0,0 +1,22 @@
+import { QueryClient } from "@tanstack/react-query";
+import { isRetryableF1Error } from "@/services/f1Service";
+import { persistOfflineCache, restoreOfflineCache } from "@/services/offlineCache";
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Jolpica data changes at most a few times per race weekend
+      staleTime: 5 * 60 * 1000,
+      gcTime: 60 * 60 * 1000,
+      retry: (failureCount, error) => failureCount < 2 && isRetryableF1Error(error),
+      refetchOnWindowFocus: true,
+    },
+  },
+});
+
+// Snapshots from IndexedDB are restored before the first render and every
+// later fetch of a persisted query is written back
+export const hydrateQueryClient = async () => {
+  await restoreOfflineCache(queryClient);
+  persistOfflineCache(queryClient);
+};
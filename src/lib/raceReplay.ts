@@ -0,0 +1,144 @@
+import type { Lap, PitStop, RaceResult } from "@/services/f1Service"
+import { parseLapTime } from "@/lib/lapTime"
+
+export interface ReplayEntry {
+  driverId: string
+  position: number
+  // Time behind the leader across the line; null when a lap time is missing
+  gapMs: number | null
+  lapsDown: number
+  pitted: boolean
+  retired: boolean
+}
+
+export type ReplayEvent =
+  | { type: "overtake"; lap: number; driverId: string; passedId: string }
+  | { type: "retirement"; lap: number; driverId: string; status: string }
+
+// The running order at the end of one lap; lap 0 is the starting grid
+export interface ReplayFrame {
+  lap: number
+  order: ReplayEntry[]
+  events: ReplayEvent[]
+}
+
+// Statuses of cars that took the chequered flag, lapped or not
+const FINISHED_STATUS = /^(Finished|Lapped|\+\d+ Laps?)$/
+
+// Lap on which a non-finisher dropped out, or null for finishers
+function getRetirementLap(result: RaceResult, totalLaps: number): number | null {
+  if (FINISHED_STATUS.test(result.status)) return null
+  const lap = result.laps + 1
+  return lap <= totalLaps ? lap : null
+}
+
+export function buildReplay(results: RaceResult[], laps: Lap[], pitStops: PitStop[]): ReplayFrame[] {
+  const totalLaps = laps.length > 0 ? laps[laps.length - 1].number : 0
+  const retirementLap = new Map(
+    results.map((result) => [result.Driver.driverId, getRetirementLap(result, totalLaps)])
+  )
+  const resultByDriver = new Map(results.map((result) => [result.Driver.driverId, result]))
+  const pittedOn = (driverId: string, lap: number) =>
+    pitStops.some((stop) => stop.driverId === driverId && stop.lap === lap)
+
+  // Race time of every driver as they crossed the line at the end of each lap
+  const cumulative: Map<string, number | null>[] = []
+  const running = new Map<string, number | null>()
+  for (const lap of laps) {
+    for (const timing of lap.Timings) {
+      const previous = running.has(timing.driverId) ? running.get(timing.driverId) : 0
+      const time = parseLapTime(timing.time)
+      running.set(timing.driverId, previous === null || time === null ? null : previous + time)
+    }
+    cumulative[lap.number] = new Map(running)
+  }
+
+  // Pit lane starters (grid 0) line up behind the rest of the field
+  const gridPositions = new Map(
+    results.map((result) => [result.Driver.driverId, result.grid > 0 ? result.grid : results.length])
+  )
+
+  const frames: ReplayFrame[] = [{
+    lap: 0,
+    order: [...gridPositions.entries()]
+      .sort((a, b) => a[1] - b[1])
+      .map(([driverId], index) => ({
+        driverId,
+        position: index + 1,
+        gapMs: null,
+        lapsDown: 0,
+        pitted: false,
+        retired: false,
+      })),
+    events: [],
+  }]
+
+  let previousPositions = new Map([...gridPositions.entries()])
+
+  for (const lap of laps) {
+    const positions = new Map(lap.Timings.map((timing) => [timing.driverId, timing.position]))
+    const leaderId = lap.Timings.find((timing) => timing.position === 1)?.driverId
+    const leaderTime = (n: number) => cumulative[n]?.get(leaderId) ?? null
+
+    const events: ReplayEvent[] = []
+
+    // A pass is two drivers swapping order on track; a car losing places
+    // because it pitted is not one
+    for (const [driverId, position] of positions) {
+      const before = previousPositions.get(driverId)
+      if (before === undefined || position >= before) continue
+      for (const [otherId, otherPosition] of positions) {
+        const otherBefore = previousPositions.get(otherId)
+        if (otherBefore === undefined || pittedOn(otherId, lap.number)) continue
+        if (otherBefore < before && otherPosition > position) {
+          events.push({ type: "overtake", lap: lap.number, driverId, passedId: otherId })
+        }
+      }
+    }
+
+    for (const [driverId, retiredOn] of retirementLap) {
+      if (retiredOn === lap.number) {
+        events.push({ type: "retirement", lap: lap.number, driverId, status: resultByDriver.get(driverId).status })
+      }
+    }
+
+    const entries: ReplayEntry[] = results.map((result) => {
+      const driverId = result.Driver.driverId
+      const retiredOn = retirementLap.get(driverId)
+      const time = cumulative[lap.number]?.get(driverId) ?? null
+      const leader = leaderTime(lap.number)
+
+      let lapsDown = 0
+      if (time !== null) {
+        for (let n = lap.number + 1; n <= totalLaps && (leaderTime(n) ?? Infinity) < time; n++) {
+          lapsDown++
+        }
+      }
+
+      return {
+        driverId,
+        position: positions.get(driverId) ?? previousPositions.get(driverId) ?? result.position,
+        gapMs: positions.has(driverId) && time !== null && leader !== null ? time - leader : null,
+        lapsDown,
+        pitted: pittedOn(driverId, lap.number),
+        retired: retiredOn !== null && retiredOn <= lap.number,
+      }
+    })
+
+    // Cars still running by position, then lapped finishers that already took
+    // the flag, then retirements with the longest-running first
+    const rank = (entry: ReplayEntry) =>
+      entry.retired ? 1000 - resultByDriver.get(entry.driverId).laps : positions.has(entry.driverId) ? entry.position : 100 + entry.position
+
+    const order = entries
+      .sort((a, b) => rank(a) - rank(b))
+      .map((entry, index) => ({ ...entry, position: index + 1 }))
+
+    frames.push({ lap: lap.number, order, events })
+    previousPositions = new Map(
+      order.filter((entry) => positions.has(entry.driverId)).map((entry) => [entry.driverId, entry.position])
+    )
+  }
+
+  return frames
+}
@@ -0,0 +1,72 @@
+import type { Constructor, Driver, RaceWithResults, RaceWithSprint } from "@/services/f1Service"
+import { earnsFastestLap, pointsFor, type PointsRules } from "@/lib/pointsRules"
+import { compareByCountback, createEntry, isClassified, recordFinish, type ScoredEntry } from "@/lib/standings"
+
+export interface RescoredDriver extends ScoredEntry {
+  driver: Driver
+  // The latest team they drove for
+  constructor: Constructor
+}
+
+export interface RescoredConstructor extends ScoredEntry {
+  constructor: Constructor
+}
+
+export interface RescoredStandings {
+  drivers: RescoredDriver[]
+  constructors: RescoredConstructor[]
+}
+
+// A season's standings recomputed from its raw results under `rules`. Both
+// cars score for the team; dropped scores, shared drives and the older
+// best-car-only constructors' rules are not modelled.
+export function rescoreSeason(
+  results: RaceWithResults[],
+  sprints: RaceWithSprint[],
+  rules: PointsRules
+): RescoredStandings {
+  const drivers = new Map<string, RescoredDriver>()
+  const constructors = new Map<string, RescoredConstructor>()
+
+  const score = (classification: RaceWithResults["Results"], table: number[], isRace: boolean) => {
+    for (const result of classification) {
+      let driver = drivers.get(result.Driver.driverId)
+      if (!driver) {
+        driver = { ...createEntry(result.Driver.driverId), driver: result.Driver, constructor: result.Constructor }
+        drivers.set(driver.id, driver)
+      }
+      driver.constructor = result.Constructor
+      let constructor = constructors.get(result.Constructor.constructorId)
+      if (!constructor) {
+        constructor = { ...createEntry(result.Constructor.constructorId), constructor: result.Constructor }
+        constructors.set(constructor.id, constructor)
+      }
+      if (!isClassified(result.positionText)) continue
+
+      let points = pointsFor(table, result.position)
+      if (isRace && earnsFastestLap(rules, result.position) && result.FastestLap?.rank === 1) {
+        points += rules.fastestLap
+      }
+      driver.points += points
+      constructor.points += points
+      if (isRace) {
+        recordFinish(driver, result.position)
+        recordFinish(constructor, result.position)
+      }
+    }
+  }
+
+  // Rounds in order so a driver's team ends up as their latest
+  const rounds = [...new Set([...results, ...sprints].map((race) => race.round))].sort((a, b) => a - b)
+  for (const round of rounds) {
+    const sprint = sprints.find((race) => race.round === round)
+    const race = results.find((candidate) => candidate.round === round)
+    if (sprint && rules.sprint.length > 0) score(sprint.SprintResults, rules.sprint, false)
+    if (race) score(race.Results, rules.race, true)
+  }
+
+  return {
+    drivers: [...drivers.values()].sort(compareByCountback),
+    constructors: [...constructors.values()].sort(compareByCountback),
+  }
+}
@@ -0,0 +1,37 @@
+// Path builders for every deep-linkable screen, so links and route
+// definitions can't drift apart
+
+export type Section = "calendar" | "drivers" | "constructors"
+
+export const seasonPath = (season: string) => `/${season}`
+
+export const sectionPath = (season: string, section: Section) =>
+  section === "calendar" ? seasonPath(season) : `/${season}/${section}`
+
+export const racePath = (season: string, round: number, tab?: string) =>
+  `/${season}/race/${round}${tab ? `/${tab}` : ""}`
+
+export const simulatorPath = (season: string) => `/${season}/simulator`
+
+// `season` preselects that season's race-by-race results on the profile
+export const driverPath = (driverId: string, season?: string) =>
+  `/driver/${encodeURIComponent(driverId)}${season ? `?season=${season}` : ""}`
+
+export const constructorPath = (constructorId: string, season?: string) =>
+  `/constructor/${encodeURIComponent(constructorId)}${season ? `?season=${season}` : ""}`
+
+export interface CompareSide {
+  driverId?: string
+  season?: string
+}
+
+// Either side may be left out and picked on the page
+export const comparePath = (a: CompareSide = {}, b: CompareSide = {}) => {
+  const params = new URLSearchParams()
+  if (a.driverId) params.set("a", a.driverId)
+  if (a.season) params.set("as", a.season)
+  if (b.driverId) params.set("b", b.driverId)
+  if (b.season) params.set("bs", b.season)
+  const query = params.toString()
+  return `/compare${query ? `?${query}` : ""}`
+}
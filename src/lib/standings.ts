@@ -0,0 +1,31 @@
+// A championship entry being scored: points plus how often it finished in
+// each position, which is what breaks a tie on points
+export interface ScoredEntry {
+  id: string
+  points: number
+  // finishes[0] = wins, finishes[1] = second places, …
+  finishes: number[]
+}
+
+// Jolpica positionText: a number for classified cars, otherwise
+// R = retired, N = not classified, D = disqualified, E = excluded,
+// W = withdrawn, F = failed to qualify
+export const isClassified = (positionText: string) => /^\d+$/.test(positionText)
+
+export const createEntry = (id: string, points = 0): ScoredEntry => ({ id, points, finishes: [] })
+
+export function recordFinish(entry: ScoredEntry, position: number) {
+  entry.finishes[position - 1] = (entry.finishes[position - 1] ?? 0) + 1
+}
+
+// FIA countback: more points first, then more wins, more second places and
+// so on down the order. Only Grand Prix finishes count, sprints don't.
+export function compareByCountback(a: ScoredEntry, b: ScoredEntry): number {
+  if (a.points !== b.points) return b.points - a.points
+  const places = Math.max(a.finishes.length, b.finishes.length)
+  for (let index = 0; index < places; index++) {
+    const difference = (b.finishes[index] ?? 0) - (a.finishes[index] ?? 0)
+    if (difference !== 0) return difference
+  }
+  return 0
+}
@@ -0,0 +1,35 @@
+import type { Constructor } from "@/services/f1Service"
+
+// Livery accents keyed by Jolpica constructorId; names are kept as a
+// fallback for entries whose id changed between seasons
+const teamColors: Record<string, string> = {
+  red_bull: "#3671C6",
+  ferrari: "#E8002D",
+  mercedes: "#27F4D2",
+  mclaren: "#FF8000",
+  aston_martin: "#229971",
+  alpine: "#FF87BC",
+  williams: "#64C4FF",
+  rb: "#6692FF",
+  alphatauri: "#5E8FAA",
+  sauber: "#52E252",
+  alfa: "#C92D4B",
+  haas: "#B6BABD",
+  "Red Bull": "#3671C6",
+  "Ferrari": "#E8002D",
+  "Mercedes": "#27F4D2",
+  "McLaren": "#FF8000",
+  "Aston Martin": "#229971",
+  "Alpine F1 Team": "#FF87BC",
+  "Williams": "#64C4FF",
+  "RB F1 Team": "#6692FF",
+  "Sauber": "#52E252",
+  "Haas F1 Team": "#B6BABD",
+}
+
+export const DEFAULT_TEAM_COLOR = "#E10600"
+
+export function getTeamColor(constructor: Pick<Constructor, "constructorId" | "name"> | undefined): string {
+  if (!constructor) return DEFAULT_TEAM_COLOR
+  return teamColors[constructor.constructorId] ?? teamColors[constructor.name] ?? DEFAULT_TEAM_COLOR
+}
@@ -0,0 +1,120 @@
+import type {
+  Driver,
+  DriverStanding,
+  QualifyingResult,
+  RaceWithQualifying,
+  RaceWithResults,
+  RaceWithSprint,
+} from "@/services/f1Service"
+import { parseLapTime } from "@/lib/lapTime"
+import { isClassified } from "@/lib/standings"
+
+export interface HeadToHeadCount {
+  a: number
+  b: number
+  rounds: number
+}
+
+export interface TeammateBattle {
+  a: Driver
+  b: Driver
+  qualifying: HeadToHeadCount
+  // Only races both drivers finished classified
+  race: HeadToHeadCount
+  // Points scored for this team over the whole season, sprints included
+  points: { a: number; b: number }
+  // Mean of a's time minus b's; negative when a is quicker
+  averageGapMs: number | null
+  gapRounds: number
+}
+
+// Drivers who drove for the team, in championship order. A driver who
+// switched teams mid-season lists both in their standing's `Constructors`;
+// anyone in the results but not (yet) in the standings is appended.
+export function getTeamRoster(
+  constructorId: string,
+  standings: DriverStanding[],
+  races: RaceWithResults[]
+): Driver[] {
+  const roster = standings
+    .filter((standing) => standing.Constructors.some((c) => c.constructorId === constructorId))
+    .map((standing) => standing.Driver)
+  for (const race of races) {
+    for (const result of race.Results) {
+      if (!roster.some((driver) => driver.driverId === result.Driver.driverId)) roster.push(result.Driver)
+    }
+  }
+  return roster
+}
+
+// Gap over the last segment both drivers set a time in, so a Q1 exit is
+// measured against the teammate's Q1 lap rather than their Q3 lap
+function getQualifyingGap(a: QualifyingResult, b: QualifyingResult): number | null {
+  for (const segment of ["Q3", "Q2", "Q1"] as const) {
+    const aTime = parseLapTime(a[segment])
+    const bTime = parseLapTime(b[segment])
+    if (aTime !== null && bTime !== null) return aTime - bTime
+  }
+  return null
+}
+
+// One battle per pairing of drivers who shared at least one weekend, so a
+// mid-season driver change yields a battle for each line-up
+export function getTeammateBattles(
+  roster: Driver[],
+  races: RaceWithResults[],
+  sprints: RaceWithSprint[],
+  qualifying: RaceWithQualifying[]
+): TeammateBattle[] {
+  const points = new Map<string, number>()
+  for (const result of [...races.flatMap((race) => race.Results), ...sprints.flatMap((sprint) => sprint.SprintResults)]) {
+    points.set(result.Driver.driverId, (points.get(result.Driver.driverId) ?? 0) + result.points)
+  }
+
+  const battles: TeammateBattle[] = []
+  for (let i = 0; i < roster.length; i++) {
+    for (let j = i + 1; j < roster.length; j++) {
+      const a = roster[i]
+      const b = roster[j]
+      const race = { a: 0, b: 0, rounds: 0 }
+      const quali = { a: 0, b: 0, rounds: 0 }
+      const gaps: number[] = []
+      let shared = 0
+
+      for (const { Results } of races) {
+        const aResult = Results.find((result) => result.Driver.driverId === a.driverId)
+        const bResult = Results.find((result) => result.Driver.driverId === b.driverId)
+        if (!aResult || !bResult) continue
+        shared++
+        if (!isClassified(aResult.positionText) || !isClassified(bResult.positionText)) continue
+        race.rounds++
+        if (aResult.position < bResult.position) race.a++
+        else race.b++
+      }
+
+      for (const { QualifyingResults } of qualifying) {
+        const aResult = QualifyingResults.find((result) => result.Driver.driverId === a.driverId)
+        const bResult = QualifyingResults.find((result) => result.Driver.driverId === b.driverId)
+        if (!aResult || !bResult) continue
+        shared++
+        quali.rounds++
+        if (aResult.position < bResult.position) quali.a++
+        else quali.b++
+        const gap = getQualifyingGap(aResult, bResult)
+        if (gap !== null) gaps.push(gap)
+      }
+
+      if (shared === 0) continue
+      battles.push({
+        a,
+        b,
+        qualifying: quali,
+        race,
+        points: { a: points.get(a.driverId) ?? 0, b: points.get(b.driverId) ?? 0 },
+        averageGapMs: gaps.length > 0 ? Math.round(gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length) : null,
+        gapRounds: gaps.length,
+      })
+    }
+  }
+  return battles
+}
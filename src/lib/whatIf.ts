@@ -0,0 +1,176 @@
+import type {
+  Constructor,
+  ConstructorStanding,
+  Driver,
+  DriverStanding,
+  RaceWithResults,
+} from "@/services/f1Service"
+import type { PointsRules } from "@/lib/pointsRules"
+import { compareByCountback, createEntry, isClassified, recordFinish, type ScoredEntry } from "@/lib/standings"
+
+// Predicted finishing orders of one round, driver ids winner first
+export interface ScenarioRound {
+  race: string[]
+  sprint?: string[]
+}
+
+// Predicted rounds keyed by round number
+export type Scenario = Record<number, ScenarioRound>
+
+export interface SimulatedEntry extends ScoredEntry {
+  basePoints: number
+  basePosition: number | undefined
+}
+
+export interface SimulatedDriver extends SimulatedEntry {
+  driver: Driver
+  // The team a driver's predicted points go to: the latest they drove for
+  constructor: Constructor | undefined
+}
+
+export interface SimulatedConstructor extends SimulatedEntry {
+  constructor: Constructor
+}
+
+export interface SimulatedStandings {
+  drivers: SimulatedDriver[]
+  constructors: SimulatedConstructor[]
+}
+
+// Official standings plus the predicted rounds. Finishes from the races run so
+// far seed the countback; only rounds in `rounds` are scored, so a saved round
+// that has since been raced drops out.
+export function simulateStandings(
+  driverStandings: DriverStanding[],
+  constructorStandings: ConstructorStanding[],
+  results: RaceWithResults[],
+  scenario: Scenario,
+  rounds: number[],
+  rules: PointsRules
+): SimulatedStandings {
+  const drivers = new Map<string, SimulatedDriver>(
+    driverStandings.map((standing) => [standing.Driver.driverId, {
+      ...createEntry(standing.Driver.driverId, standing.points),
+      basePoints: standing.points,
+      basePosition: standing.position,
+      driver: standing.Driver,
+      constructor: standing.Constructors[standing.Constructors.length - 1],
+    }])
+  )
+  const constructors = new Map<string, SimulatedConstructor>(
+    constructorStandings.map((standing) => [standing.Constructor.constructorId, {
+      ...createEntry(standing.Constructor.constructorId, standing.points),
+      basePoints: standing.points,
+      basePosition: standing.position,
+      constructor: standing.Constructor,
+    }])
+  )
+
+  for (const race of results) {
+    for (const result of race.Results) {
+      if (!isClassified(result.positionText)) continue
+      const driver = drivers.get(result.Driver.driverId)
+      const constructor = constructors.get(result.Constructor.constructorId)
+      if (driver) recordFinish(driver, result.position)
+      if (constructor) recordFinish(constructor, result.position)
+    }
+  }
+
+  const score = (order: string[], table: number[], countsBack: boolean) => {
+    order.forEach((driverId, index) => {
+      const driver = drivers.get(driverId)
+      if (!driver) return
+      const points = table[index] ?? 0
+      const constructor = driver.constructor && constructors.get(driver.constructor.constructorId)
+      driver.points += points
+      if (countsBack) recordFinish(driver, index + 1)
+      if (constructor) {
+        constructor.points += points
+        if (countsBack) recordFinish(constructor, index + 1)
+      }
+    })
+  }
+
+  for (const round of rounds) {
+    const predicted = scenario[round]
+    if (!predicted) continue
+    score(predicted.race, rules.race, true)
+    if (predicted.sprint) score(predicted.sprint, rules.sprint, false)
+  }
+
+  return {
+    drivers: [...drivers.values()].sort(compareByCountback),
+    constructors: [...constructors.values()].sort(compareByCountback),
+  }
+}
+
+// Keeps a stored order valid against today's drivers: unknown ids are dropped
+// and anyone missing is appended in `driverIds` order
+export function completeOrder(order: string[], driverIds: string[]): string[] {
+  const known = order.filter((driverId) => driverIds.includes(driverId))
+  return [...known, ...driverIds.filter((driverId) => !known.includes(driverId))]
+}
+
+// Orders as indexes into one list of driver ids, to keep links short
+interface EncodedScenario {
+  d: string[]
+  r: [number, number[], number[]?][]
+}
+
+// With `scoringPlaces`, each order is cut to the places that score under
+// those rules, for share links. The stored scenario keeps the full orders:
+// countback also looks at finishes outside the points.
+export function encodeScenario(scenario: Scenario, scoringPlaces?: PointsRules): string {
+  const ids: string[] = []
+  const index = (driverId: string) => {
+    if (!ids.includes(driverId)) ids.push(driverId)
+    return ids.indexOf(driverId)
+  }
+  const rounds: EncodedScenario["r"] = Object.entries(scenario).map(([round, { race, sprint }]) => {
+    const cut = (order: string[], table: number[] | undefined) => (table ? order.slice(0, table.length) : order)
+    const entry: [number, number[], number[]?] = [Number(round), cut(race, scoringPlaces?.race).map(index)]
+    if (sprint) entry.push(cut(sprint, scoringPlaces?.sprint).map(index))
+    return entry
+  })
+  const payload: EncodedScenario = { d: ids, r: rounds }
+  return btoa(JSON.stringify(payload)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+// Orders from share links come back truncated to the scoring places;
+// `completeOrder` fills them
+export function decodeScenario(value: string): Scenario | null {
+  try {
+    const json = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+    const payload = JSON.parse(json) as EncodedScenario
+    if (!Array.isArray(payload.d) || !Array.isArray(payload.r)) return null
+    const scenario: Scenario = {}
+    for (const [round, race, sprint] of payload.r) {
+      const ids = (indexes: number[]) => indexes.map((index) => payload.d[index]).filter(Boolean)
+      scenario[round] = { race: ids(race), ...(sprint ? { sprint: ids(sprint) } : {}) }
+    }
+    return scenario
+  } catch {
+    return null
+  }
+}
+
+const storageKey = (season: string) => `f1-what-if:${season}`
+
+// Private browsing or a full quota makes storage throw; the simulator then
+// just doesn't remember the scenario
+export function loadScenario(season: string): string | null {
+  try {
+    return localStorage.getItem(storageKey(season))
+  } catch {
+    return null
+  }
+}
+
+export function saveScenario(season: string, encoded: string | null) {
+  try {
+    if (encoded) localStorage.setItem(storageKey(season), encoded)
+    else localStorage.removeItem(storageKey(season))
+  } catch {
+    // Not remembered, see above
+  }
+}
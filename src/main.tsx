@@ -1,7 +1,10 @@
 import { createRoot } from 'react-dom/client'
 import { polyfillCountryFlagEmojis } from 'country-flag-emoji-polyfill'
 import App from './App.tsx'
+import { hydrateQueryClient } from './lib/queryClient'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+hydrateQueryClient().finally(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
 polyfillCountryFlagEmojis();
\ No newline at end of file
@@ -0,0 +1,307 @@
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  getDriverCode,
+  useCurrentSeason,
+  useDriverQualifying,
+  useDriverResults,
+  useDriverSeasonStandings,
+  useDriverStandings,
+  type Driver,
+} from "@/services/f1Service";
+import { PageShell } from "@/components/PageShell";
+import { DriverLink } from "@/components/DriverLink";
+import { SeasonSelect } from "@/components/SeasonSelect";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getOverlayRounds, getQualifyingHeadToHead, getSeasonSummary } from "@/lib/headToHead";
+import { Scales } from "@phosphor-icons/react";
+
+type SideKey = "a" | "b";
+
+const SIDE_COLORS: Record<SideKey, string> = { a: "#E10600", b: "#3B82F6" };
+
+// Query params holding each side's driver and season
+const PARAMS: Record<SideKey, { driver: string; season: string }> = {
+  a: { driver: "a", season: "as" },
+  b: { driver: "b", season: "bs" },
+};
+
+// Everything shown for one side of the comparison
+function useCompareSide(driverId: string | undefined, season: string | undefined) {
+  const { races, loading: racesLoading, error: racesError } = useDriverResults(driverId);
+  const { seasons, loading: seasonsLoading } = useDriverSeasonStandings(driverId);
+  const { races: qualifying, loading: qualifyingLoading } = useDriverQualifying(season, driverId);
+
+  const seasonRaces = useMemo(() => races.filter((race) => race.season === season), [races, season]);
+  const summary = useMemo(() => getSeasonSummary(seasonRaces), [seasonRaces]);
+  const standing = seasons.find((entry) => entry.season === season)?.standing;
+  const driver = seasonRaces[0]?.Results[0]?.Driver ?? races[0]?.Results[0]?.Driver;
+
+  return {
+    driver,
+    races: seasonRaces,
+    qualifying,
+    summary,
+    // Official standings include sprint and dropped-score rules; race points are the fallback
+    points: standing?.points ?? seasonRaces.reduce((sum, race) => sum + (race.Results[0]?.points ?? 0), 0),
+    position: standing?.position,
+    loading: racesLoading || seasonsLoading || qualifyingLoading,
+    error: racesError,
+  };
+}
+
+const formatAverage = (value: number | null) => (value === null ? '–' : value.toFixed(1));
+
+const ComparePage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { currentSeason } = useCurrentSeason();
+
+  const driverIds = { a: searchParams.get("a") ?? undefined, b: searchParams.get("b") ?? undefined };
+  const seasons = {
+    a: searchParams.get("as") ?? currentSeason,
+    b: searchParams.get("bs") ?? searchParams.get("as") ?? currentSeason,
+  };
+
+  const a = useCompareSide(driverIds.a, seasons.a);
+  const b = useCompareSide(driverIds.b, seasons.b);
+
+  const setParam = (key: string, value: string) =>
+    setSearchParams((params) => {
+      params.set(key, value);
+      return params;
+    }, { replace: true });
+
+  const ready = !!driverIds.a && !!driverIds.b;
+  const loading = a.loading || b.loading;
+  const error = a.error || b.error;
+  const sameSeason = seasons.a === seasons.b;
+
+  const qualifyingH2H = useMemo(() => getQualifyingHeadToHead(a.qualifying, b.qualifying), [a.qualifying, b.qualifying]);
+  const overlay = useMemo(() => getOverlayRounds(a.races, b.races), [a.races, b.races]);
+
+  const label = (side: typeof a, key: SideKey) =>
+    `${side.driver ? getDriverCode(side.driver) : driverIds[key]}${sameSeason ? '' : ` ${seasons[key]}`}`;
+
+  const chartConfig: ChartConfig = {
+    a: { label: label(a, "a"), color: SIDE_COLORS.a },
+    b: { label: label(b, "b"), color: SIDE_COLORS.b },
+  };
+
+  const rows: { label: string; a: string | number; b: string | number; better: SideKey | null }[] = [
+    { label: "Body", a: a.points, b: b.points, better: compare(a.points, b.points, "higher") },
+    { label: "Pořadí v šampionátu", a: a.position ? `${a.position}.` : '–', b: b.position ? `${b.position}.` : '–', better: compare(a.position, b.position, "lower") },
+    { label: "Starty", a: a.summary.starts, b: b.summary.starts, better: null },
+    { label: "Vítězství", a: a.summary.wins, b: b.summary.wins, better: compare(a.summary.wins, b.summary.wins, "higher") },
+    { label: "Pódia", a: a.summary.podiums, b: b.summary.podiums, better: compare(a.summary.podiums, b.summary.podiums, "higher") },
+    { label: "Průměrný cíl", a: formatAverage(a.summary.averageFinish), b: formatAverage(b.summary.averageFinish), better: compare(a.summary.averageFinish, b.summary.averageFinish, "lower") },
+    { label: "Průměrný start", a: formatAverage(a.summary.averageGrid), b: formatAverage(b.summary.averageGrid), better: compare(a.summary.averageGrid, b.summary.averageGrid, "lower") },
+    { label: "Nedojeli (DNF)", a: a.summary.dnfs, b: b.summary.dnfs, better: compare(a.summary.dnfs, b.summary.dnfs, "lower") },
+    {
+      label: "Kvalifikace vzájemně",
+      a: qualifyingH2H.rounds > 0 ? qualifyingH2H.a : '–',
+      b: qualifyingH2H.rounds > 0 ? qualifyingH2H.b : '–',
+      better: qualifyingH2H.rounds > 0 ? compare(qualifyingH2H.a, qualifyingH2H.b, "higher") : null,
+    },
+  ];
+
+  return (
+    <PageShell title="Srovnání jezdců">
+      <div className="space-y-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-f1-red/10 border border-f1-red/20">
+            <Scales className="w-5 h-5 text-f1-red" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-white">Srovnání jezdců</h1>
+            <p className="text-xs text-gray-500">Dva jezdci ve stejné nebo v různých sezónách</p>
+          </div>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          {(["a", "b"] as const).map((key) => (
+            <DriverPicker
+              key={key}
+              color={SIDE_COLORS[key]}
+              season={seasons[key]}
+              currentSeason={currentSeason}
+              driverId={driverIds[key]}
+              onSeasonChange={(season) => setParam(PARAMS[key].season, season)}
+              onDriverChange={(driverId) => setParam(PARAMS[key].driver, driverId)}
+            />
+          ))}
+        </div>
+
+        {!ready && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">Vyberte dva jezdce ke srovnání</p>
+          </div>
+        )}
+
+        {ready && error && (
+          <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+            <p className="text-red-400 text-sm">Nepodařilo se načíst výsledky jezdců</p>
+          </div>
+        )}
+
+        {ready && !error && loading && (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-14 bg-white/5 rounded-xl animate-pulse" />
+            ))}
+          </div>
+        )}
+
+        {ready && !error && !loading && (
+          <>
+            <section>
+              <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-3 px-3 pb-2">
+                <SideHeader side={a} season={seasons.a} color={SIDE_COLORS.a} />
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-600">vs</span>
+                <SideHeader side={b} season={seasons.b} color={SIDE_COLORS.b} align="right" />
+              </div>
+              <div className="space-y-1">
+                {rows.map((row) => (
+                  <div
+                    key={row.label}
+                    className="grid grid-cols-[1fr_auto_1fr] items-center gap-3 p-3 rounded-lg bg-white/[0.02] border border-white/5"
+                  >
+                    <span
+                      className="text-lg font-black tabular-nums"
+                      style={{ color: row.better === "a" ? SIDE_COLORS.a : undefined }}
+                    >
+                      {row.a}
+                    </span>
+                    <span className="text-xs text-gray-400 text-center">{row.label}</span>
+                    <span
+                      className="text-lg font-black tabular-nums text-right"
+                      style={{ color: row.better === "b" ? SIDE_COLORS.b : undefined }}
+                    >
+                      {row.b}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[11px] text-gray-500 mt-2 px-1">
+                {sameSeason
+                  ? 'Kvalifikace vzájemně počítá kola, kde se kvalifikovali oba.'
+                  : 'Kvalifikace vzájemně páruje kola podle pořadí v sezóně.'}{' '}
+                Průměrný cíl počítá jen klasifikované dojezdy.
+              </p>
+            </section>
+
+            <section className="p-4 rounded-xl bg-white/[0.02] border border-white/5">
+              <h2 className="text-sm font-bold text-white mb-3">Výsledky kolo po kole</h2>
+              {overlay.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-gray-500">Žádné závody k porovnání</p>
+                </div>
+              ) : (
+                <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+                  <LineChart data={overlay} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+                    <CartesianGrid vertical={false} stroke="rgba(255,255,255,0.05)" />
+                    <XAxis dataKey="round" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(round) => `R${round}`} />
+                    <YAxis reversed domain={[1, "dataMax"]} allowDecimals={false} tickLine={false} axisLine={false} fontSize={10} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          className="bg-[#151515] border-white/10"
+                          labelFormatter={(_, payload) => {
+                            const row = payload[0]?.payload;
+                            if (!row) return '';
+                            const name = sameSeason ? row.aRace ?? row.bRace : null;
+                            return name ? `${row.round}. ${name}` : `${row.round}. kolo`;
+                          }}
+                          formatter={(value, name, item) => (
+                            <div className="flex w-full items-center gap-2">
+                              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: item.color }} />
+                              <span className="font-bold text-white">{chartConfig[name]?.label}</span>
+                              <span className="ml-auto tabular-nums text-gray-300">{value}.</span>
+                            </div>
+                          )}
+                        />
+                      }
+                    />
+                    {(["a", "b"] as const).map((key) => (
+                      <Line
+                        key={key}
+                        dataKey={key}
+                        name={key}
+                        type="monotone"
+                        stroke={`var(--color-${key})`}
+                        strokeWidth={2}
+                        dot={{ r: 3, fill: SIDE_COLORS[key], strokeWidth: 0 }}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ChartContainer>
+              )}
+              <p className="text-[11px] text-gray-500 mt-2">Mezery v čáře jsou závody, kde jezdec nebyl klasifikován.</p>
+            </section>
+          </>
+        )}
+      </div>
+    </PageShell>
+  );
+};
+
+// Which side the stat favours; ties and missing values favour nobody
+function compare(a: number | null | undefined, b: number | null | undefined, better: "higher" | "lower"): SideKey | null {
+  if (a == null || b == null || a === b) return null;
+  return (better === "higher" ? a > b : a < b) ? "a" : "b";
+}
+
+function DriverPicker({ color, season, currentSeason, driverId, onSeasonChange, onDriverChange }: {
+  color: string;
+  season: string | undefined;
+  currentSeason: string | undefined;
+  driverId: string | undefined;
+  onSeasonChange: (season: string) => void;
+  onDriverChange: (driverId: string) => void;
+}) {
+  const { standings, loading } = useDriverStandings(season);
+  const drivers: Driver[] = standings.map((standing) => standing.Driver);
+
+  return (
+    <div className="flex items-center gap-2 p-3 rounded-xl bg-white/[0.02] border border-white/5">
+      <span className="w-1.5 h-9 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+      <SeasonSelect season={season} currentSeason={currentSeason} onSeasonChange={onSeasonChange} />
+      <Select value={driverId} onValueChange={onDriverChange} disabled={loading || drivers.length === 0}>
+        <SelectTrigger
+          aria-label="Vybrat jezdce"
+          className="flex-1 min-w-0 h-9 rounded-xl bg-white/5 border-white/10 text-sm font-semibold text-white focus:ring-f1-red/50 focus:ring-offset-0"
+        >
+          <SelectValue placeholder="Jezdec" />
+        </SelectTrigger>
+        <SelectContent className="max-h-72 bg-[#151515] border-white/10 text-white">
+          {drivers.map((driver) => (
+            <SelectItem key={driver.driverId} value={driver.driverId} className="focus:bg-white/10 focus:text-white">
+              {driver.givenName} {driver.familyName}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function SideHeader({ side, season, color, align = "left" }: {
+  side: { driver?: Driver; position?: number };
+  season: string | undefined;
+  color: string;
+  align?: "left" | "right";
+}) {
+  if (!side.driver) return <span />;
+  return (
+    <div className={`min-w-0 ${align === "right" ? 'text-right' : ''}`}>
+      <DriverLink driverId={side.driver.driverId} season={season} className="block font-bold text-white truncate">
+        <span style={{ color }}>{side.driver.familyName}</span>
+      </DriverLink>
+      <p className="text-[11px] text-gray-500">Sezóna {season}</p>
+    </div>
+  );
+}
+
+export default ComparePage;
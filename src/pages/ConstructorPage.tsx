@@ -0,0 +1,328 @@
+import { useMemo } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  getDriverCode,
+  useConstructor,
+  useConstructorResults,
+  useConstructorSeasonStandings,
+  useConstructorSprints,
+  useCurrentSeason,
+  useRaceSchedule,
+  type Driver,
+} from "@/services/f1Service";
+import { PageShell } from "@/components/PageShell";
+import { DriverLink } from "@/components/DriverLink";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getConstructorTallies } from "@/lib/careerStats";
+import { getTeamColor } from "@/lib/teamColors";
+import { racePath } from "@/lib/routes";
+import { parseISO } from "date-fns";
+import { ArrowSquareOut, Crown, Flag, Timer, Trophy, UsersThree } from "@phosphor-icons/react";
+
+// Teammates share the team colour; later drivers get lighter shades
+const DRIVER_SHADES = [1, 0.55, 0.3, 0.15];
+
+interface SeasonDriver {
+  driver: Driver;
+  points: number;
+  bestFinish: number | null;
+}
+
+const ConstructorPage = () => {
+  const { constructorId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { constructor, loading, error } = useConstructor(constructorId);
+  const { seasons, loading: seasonsLoading } = useConstructorSeasonStandings(constructorId);
+  const { races: wins, loading: winsLoading } = useConstructorResults(constructorId, { position: 1 });
+  const { races: seconds } = useConstructorResults(constructorId, { position: 2 });
+  const { races: poles } = useConstructorResults(constructorId, { grid: 1 });
+
+  const { currentSeason } = useCurrentSeason();
+  const { schedule } = useRaceSchedule(currentSeason);
+  const lastRace = schedule[schedule.length - 1];
+  const ongoingSeason = lastRace && parseISO(lastRace.date) > new Date() ? currentSeason : undefined;
+
+  const tallies = useMemo(() => getConstructorTallies(wins, seconds, poles), [wins, seconds, poles]);
+
+  const standingSeasons = seasons.map((season) => season.season).reverse();
+  const requested = searchParams.get("season");
+  const selectedSeason = requested && /^\d{4}$/.test(requested) ? requested : standingSeasons[0] ?? currentSeason;
+
+  const { races: seasonRaces, loading: seasonLoading } = useConstructorResults(
+    constructorId,
+    { season: selectedSeason },
+    !!selectedSeason
+  );
+  const { sprints } = useConstructorSprints(selectedSeason, constructorId);
+
+  const accent = getTeamColor(constructor ?? undefined);
+
+  // Points per round split by driver, sprint points counted in their round
+  const { drivers, rows } = useMemo(() => {
+    const byDriver = new Map<string, SeasonDriver>();
+    const rows = seasonRaces.map((race) => {
+      const row: Record<string, number | string> = { round: race.round, raceName: race.raceName };
+      const sprint = sprints.find((s) => s.round === race.round);
+      for (const result of [...race.Results, ...(sprint?.SprintResults ?? [])]) {
+        const id = result.Driver.driverId;
+        const entry = byDriver.get(id) ?? { driver: result.Driver, points: 0, bestFinish: null };
+        entry.points += result.points;
+        if (race.Results.includes(result) && /^\d+$/.test(result.positionText)) {
+          entry.bestFinish = entry.bestFinish === null ? result.position : Math.min(entry.bestFinish, result.position);
+        }
+        byDriver.set(id, entry);
+        row[id] = ((row[id] as number) ?? 0) + result.points;
+      }
+      return row;
+    });
+    return { drivers: [...byDriver.values()], rows };
+  }, [seasonRaces, sprints]);
+
+  // The pairing is whoever drove the season's latest race
+  const lastSeasonRace = seasonRaces[seasonRaces.length - 1];
+  const pairing = drivers.filter((entry) =>
+    lastSeasonRace?.Results.some((result) => result.Driver.driverId === entry.driver.driverId)
+  );
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    drivers.map((entry) => [entry.driver.driverId, { label: getDriverCode(entry.driver), color: accent }])
+  );
+
+  const totalWins = wins.reduce((sum, race) => sum + race.Results.length, 0);
+  const totalPoles = poles.reduce((sum, race) => sum + race.Results.length, 0);
+  const totalOneTwos = [...tallies.values()].reduce((sum, tally) => sum + tally.oneTwos, 0);
+  const titles = seasons.filter((season) => season.standing.position === 1 && season.season !== ongoingSeason).length;
+
+  return (
+    <PageShell title={constructor?.name}>
+      {loading && <div className="h-32 rounded-2xl bg-white/5 animate-pulse" />}
+
+      {error && (
+        <div className="p-6 rounded-2xl bg-gradient-to-br from-red-900/20 to-red-900/10 border border-red-900/30 text-center">
+          <p className="text-red-400 font-medium">Tým se nepodařilo načíst</p>
+          <p className="text-gray-500 text-sm mt-1">{error}</p>
+        </div>
+      )}
+
+      {constructor && (
+        <div className="space-y-8">
+          <section
+            className="relative overflow-hidden p-6 rounded-2xl border border-white/5"
+            style={{ backgroundImage: `linear-gradient(135deg, ${accent}33, transparent 60%)` }}
+          >
+            <div className="absolute left-0 top-0 w-1.5 h-full" style={{ backgroundColor: accent }} />
+            <h1 className="text-3xl sm:text-4xl font-black text-white leading-tight">{constructor.name}</h1>
+            {constructor.nationality && <p className="text-gray-400 text-sm mt-1">{constructor.nationality}</p>}
+            {constructor.url && (
+              <a
+                href={constructor.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1.5 mt-4 text-sm hover:text-white transition-colors"
+                style={{ color: accent }}
+              >
+                <ArrowSquareOut className="w-4 h-4" />
+                Wikipedie
+              </a>
+            )}
+          </section>
+
+          {/* All-time totals */}
+          <section>
+            <h2 className="text-lg font-bold text-white mb-3">Historie</h2>
+            {seasonsLoading || winsLoading ? (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {[...Array(4)].map((_, i) => (
+                  <div key={i} className="h-20 bg-white/5 rounded-xl animate-pulse" />
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <StatCard icon={Crown} label="Tituly" value={titles} accent={accent} />
+                <StatCard icon={Trophy} label="Vítězství" value={totalWins} accent={accent} />
+                <StatCard icon={Timer} label="Pole position" value={totalPoles} accent={accent} hint="Start z 1. místa na roštu" />
+                <StatCard icon={Flag} label="Double (1-2)" value={totalOneTwos} accent={accent} />
+              </div>
+            )}
+          </section>
+
+          {/* Selected season: drivers and points per round */}
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <h2 className="text-lg font-bold text-white">Sezóna {selectedSeason}</h2>
+              {standingSeasons.length > 0 && (
+                <Select
+                  value={selectedSeason}
+                  onValueChange={(season) => setSearchParams({ season }, { replace: true })}
+                >
+                  <SelectTrigger
+                    aria-label="Vybrat sezónu"
+                    className="w-[7.5rem] h-9 rounded-xl bg-white/5 border-white/10 text-sm font-semibold text-white focus:ring-f1-red/50 focus:ring-offset-0"
+                  >
+                    <SelectValue placeholder="Sezóna" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72 bg-[#151515] border-white/10 text-white">
+                    {standingSeasons.map((season) => (
+                      <SelectItem key={season} value={season} className="focus:bg-white/10 focus:text-white">
+                        {season}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {seasonLoading ? (
+              <div className="h-[300px] bg-white/5 rounded-xl animate-pulse" />
+            ) : seasonRaces.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-gray-500">V této sezóně tým zatím nezávodil</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid sm:grid-cols-2 gap-3">
+                  {pairing.map((entry) => {
+                    const shade = DRIVER_SHADES[drivers.indexOf(entry)] ?? 0.15;
+                    return (
+                      <div key={entry.driver.driverId} className="flex items-center gap-4 p-4 rounded-xl bg-white/[0.03] border border-white/5">
+                        <div className="w-1.5 h-10 rounded-full" style={{ backgroundColor: accent, opacity: shade }} />
+                        <div className="flex-1 min-w-0">
+                          <DriverLink driverId={entry.driver.driverId} season={selectedSeason} className="block font-bold text-white truncate">
+                            {entry.driver.givenName} {entry.driver.familyName}
+                          </DriverLink>
+                          <p className="text-xs text-gray-500">
+                            Nejlepší výsledek: {entry.bestFinish ? `${entry.bestFinish}.` : '–'}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-xl font-black text-white tabular-nums">{entry.points}</p>
+                          <p className="text-[11px] text-gray-500">bodů</p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="p-4 rounded-xl bg-white/[0.02] border border-white/5">
+                  <div className="flex items-center gap-2 mb-3">
+                    <UsersThree className="w-4 h-4" style={{ color: accent }} />
+                    <h3 className="text-sm font-bold text-white">Body v jednotlivých kolech</h3>
+                  </div>
+                  <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+                    <BarChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: -16 }}>
+                      <CartesianGrid vertical={false} stroke="rgba(255,255,255,0.05)" />
+                      <XAxis dataKey="round" tickLine={false} axisLine={false} tickMargin={8} tickFormatter={(round) => `R${round}`} />
+                      <YAxis tickLine={false} axisLine={false} allowDecimals={false} fontSize={10} />
+                      <ChartTooltip
+                        cursor={{ fill: "rgba(255,255,255,0.04)" }}
+                        content={
+                          <ChartTooltipContent
+                            className="bg-[#151515] border-white/10"
+                            labelFormatter={(_, payload) => {
+                              const row = payload[0]?.payload;
+                              return row ? `${row.round}. ${row.raceName}` : '';
+                            }}
+                          />
+                        }
+                      />
+                      {drivers.map((entry, index) => (
+                        <Bar
+                          key={entry.driver.driverId}
+                          dataKey={entry.driver.driverId}
+                          stackId="points"
+                          fill={accent}
+                          fillOpacity={DRIVER_SHADES[index] ?? 0.15}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                  <div className="flex flex-wrap gap-3 mt-3">
+                    {drivers.map((entry, index) => (
+                      <span key={entry.driver.driverId} className="flex items-center gap-1.5 text-[11px] font-bold text-gray-300">
+                        <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: accent, opacity: DRIVER_SHADES[index] ?? 0.15 }} />
+                        {getDriverCode(entry.driver)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  {seasonRaces.map((race) => (
+                    <Link
+                      key={race.round}
+                      to={racePath(race.season, race.round, "results")}
+                      className="px-2 py-1 rounded-md text-[11px] text-gray-400 border border-white/5 hover:text-white hover:border-white/20 transition-all"
+                    >
+                      {race.round}. {race.raceName.replace(/ Grand Prix$/, "")}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+          </section>
+
+          {/* Season-by-season record */}
+          {seasons.length > 0 && (
+            <section>
+              <h2 className="text-lg font-bold text-white mb-3">Sezóny</h2>
+              <div className="grid grid-cols-[3.5rem_3rem_1fr_3rem_3rem_3rem] items-center gap-2 px-3 pb-1 text-[10px] font-bold uppercase tracking-wider text-gray-600">
+                <span>Rok</span>
+                <span className="text-center">Poz</span>
+                <span className="text-right">Body</span>
+                <span className="text-center">Výhry</span>
+                <span className="text-center">Pole</span>
+                <span className="text-center">1-2</span>
+              </div>
+              <div className="space-y-1">
+                {[...seasons].reverse().map(({ season, standing }) => {
+                  const tally = tallies.get(season);
+                  const champion = standing.position === 1 && season !== ongoingSeason;
+                  return (
+                    <button
+                      key={season}
+                      type="button"
+                      onClick={() => setSearchParams({ season }, { replace: true })}
+                      className={`w-full grid grid-cols-[3.5rem_3rem_1fr_3rem_3rem_3rem] items-center gap-2 p-2.5 rounded-lg border text-sm tabular-nums transition-all ${season === selectedSeason ? 'bg-white/[0.07] border-white/15' : 'bg-white/[0.02] border-white/5 hover:bg-white/[0.05]'}`}
+                    >
+                      <span className="text-left font-bold text-white">{season}</span>
+                      <span className={`text-center font-black ${champion ? 'text-yellow-400' : 'text-gray-400'}`}>
+                        {standing.position ?? standing.positionText}
+                      </span>
+                      <span className="text-right text-white">{standing.points}</span>
+                      <span className="text-center text-gray-300">{tally?.wins ?? 0}</span>
+                      <span className="text-center text-gray-300">{tally?.poles ?? 0}</span>
+                      <span className="text-center text-gray-300">{tally?.oneTwos ?? 0}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </PageShell>
+  );
+};
+
+function StatCard({ icon: Icon, label, value, accent, hint }: {
+  icon: typeof Flag;
+  label: string;
+  value: number;
+  accent: string;
+  hint?: string;
+}) {
+  return (
+    <div title={hint} className="p-4 rounded-xl bg-white/[0.03] border border-white/5">
+      <div className="flex items-center gap-1.5 text-gray-500 text-xs font-medium mb-1">
+        <Icon className="w-3.5 h-3.5" style={{ color: accent }} />
+        {label}
+      </div>
+      <p className="text-2xl font-black text-white tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+export default ConstructorPage;
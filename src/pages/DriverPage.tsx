@@ -0,0 +1,273 @@
+import { useMemo } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import {
+  useCurrentSeason,
+  useDriver,
+  useDriverResults,
+  useDriverSeasonStandings,
+  useRaceSchedule,
+  type RaceWithResults,
+} from "@/services/f1Service";
+import { PageShell } from "@/components/PageShell";
+import { ConstructorLink } from "@/components/ConstructorLink";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getCareerTotals, getTeamSpells, isPodium } from "@/lib/careerStats";
+import { getTeamColor } from "@/lib/teamColors";
+import { comparePath, racePath } from "@/lib/routes";
+import { format, isValid, parseISO } from "date-fns";
+import { cs } from "date-fns/locale";
+import { ArrowSquareOut, Flag, Medal, Timer, Trophy, Crown, SteeringWheel, Star, Scales } from "@phosphor-icons/react";
+
+const DriverPage = () => {
+  const { driverId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { driver, loading, error } = useDriver(driverId);
+  const { races, loading: racesLoading, error: racesError } = useDriverResults(driverId);
+  const { seasons, loading: seasonsLoading } = useDriverSeasonStandings(driverId);
+
+  // The current season only counts towards titles once its last race is run
+  const { currentSeason } = useCurrentSeason();
+  const { schedule } = useRaceSchedule(currentSeason);
+  const lastRace = schedule[schedule.length - 1];
+  const ongoingSeason = lastRace && parseISO(lastRace.date) > new Date() ? currentSeason : undefined;
+
+  const totals = useMemo(
+    () => getCareerTotals(races.map((race) => race.Results[0]).filter(Boolean), seasons, ongoingSeason),
+    [races, seasons, ongoingSeason]
+  );
+  const spells = useMemo(() => getTeamSpells(seasons), [seasons]);
+
+  const raceSeasons = [...new Set(races.map((race) => race.season))].reverse();
+  const requested = searchParams.get("season");
+  const selectedSeason = requested && raceSeasons.includes(requested) ? requested : raceSeasons[0];
+  const seasonRaces = races.filter((race) => race.season === selectedSeason);
+  const seasonStanding = seasons.find((season) => season.season === selectedSeason)?.standing;
+
+  const born = driver?.dateOfBirth ? parseISO(driver.dateOfBirth) : null;
+
+  return (
+    <PageShell title={driver ? `${driver.givenName} ${driver.familyName}` : undefined}>
+      {loading && <div className="h-32 rounded-2xl bg-white/5 animate-pulse" />}
+
+      {error && (
+        <div className="p-6 rounded-2xl bg-gradient-to-br from-red-900/20 to-red-900/10 border border-red-900/30 text-center">
+          <p className="text-red-400 font-medium">Jezdce se nepodařilo načíst</p>
+          <p className="text-gray-500 text-sm mt-1">{error}</p>
+        </div>
+      )}
+
+      {driver && (
+        <div className="space-y-8">
+          <section className="p-6 rounded-2xl bg-gradient-to-br from-white/[0.05] to-transparent border border-white/5">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-gray-400 text-sm">{driver.givenName}</p>
+                <h1 className="text-3xl sm:text-4xl font-black text-white leading-tight">{driver.familyName}</h1>
+                <p className="text-gray-500 text-sm mt-2">
+                  {[
+                    driver.nationality,
+                    born && isValid(born) && `nar. ${format(born, "d. MMMM yyyy", { locale: cs })}`,
+                  ].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              {driver.permanentNumber && (
+                <span className="text-5xl font-black text-f1-red/80 tabular-nums">{driver.permanentNumber}</span>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+              {driver.url && (
+                <a
+                  href={driver.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1.5 text-sm text-f1-red hover:text-white transition-colors"
+                >
+                  <ArrowSquareOut className="w-4 h-4" />
+                  Wikipedie
+                </a>
+              )}
+              <Link
+                to={comparePath({ driverId: driver.driverId, season: selectedSeason })}
+                className="inline-flex items-center gap-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+              >
+                <Scales className="w-4 h-4" />
+                Srovnat s jiným jezdcem
+              </Link>
+            </div>
+          </section>
+
+          {/* Career totals */}
+          <section>
+            <h2 className="text-lg font-bold text-white mb-3">Kariéra</h2>
+            {racesLoading || seasonsLoading ? (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                {[...Array(6)].map((_, i) => (
+                  <div key={i} className="h-20 bg-white/5 rounded-xl animate-pulse" />
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                <StatCard icon={SteeringWheel} label="Starty" value={totals.starts} />
+                <StatCard icon={Trophy} label="Vítězství" value={totals.wins} />
+                <StatCard icon={Timer} label="Pole position" value={totals.poles} hint="Start z 1. místa na roštu" />
+                <StatCard icon={Medal} label="Pódia" value={totals.podiums} />
+                <StatCard icon={Star} label="Body" value={totals.points} />
+                <StatCard icon={Crown} label="Tituly" value={totals.titles} highlight={totals.titles > 0} />
+              </div>
+            )}
+          </section>
+
+          {/* Teams over time */}
+          {spells.length > 0 && (
+            <section>
+              <h2 className="text-lg font-bold text-white mb-3">Týmy</h2>
+              <div className="space-y-1.5">
+                {spells.map((spell) => (
+                  <div
+                    key={`${spell.from}-${spell.constructors.map((c) => c.constructorId).join("+")}`}
+                    className="flex items-center gap-4 p-3 rounded-xl bg-white/[0.02] border border-white/5"
+                  >
+                    <span className="w-24 text-sm text-gray-400 tabular-nums">
+                      {spell.from === spell.to ? spell.from : `${spell.from}–${spell.to}`}
+                    </span>
+                    <div className="flex flex-wrap gap-2">
+                      {spell.constructors.map((constructor) => (
+                        <ConstructorLink
+                          key={constructor.constructorId}
+                          constructorId={constructor.constructorId}
+                          season={spell.to}
+                          className="flex items-center gap-2 text-sm font-bold text-white"
+                        >
+                          <span className="w-1 h-4 rounded-full" style={{ backgroundColor: getTeamColor(constructor) }} />
+                          {constructor.name}
+                        </ConstructorLink>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* Race-by-race results of one season */}
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <div>
+                <h2 className="text-lg font-bold text-white">Výsledky sezóny</h2>
+                {seasonStanding && (
+                  <p className="text-xs text-gray-500">
+                    {seasonStanding.position ?? seasonStanding.positionText}. místo · {seasonStanding.points} b. · {seasonStanding.wins} výher
+                  </p>
+                )}
+              </div>
+              {raceSeasons.length > 0 && (
+                <Select
+                  value={selectedSeason}
+                  onValueChange={(season) => setSearchParams({ season }, { replace: true })}
+                >
+                  <SelectTrigger
+                    aria-label="Vybrat sezónu"
+                    className="w-[7.5rem] h-9 rounded-xl bg-white/5 border-white/10 text-sm font-semibold text-white focus:ring-f1-red/50 focus:ring-offset-0"
+                  >
+                    <SelectValue placeholder="Sezóna" />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72 bg-[#151515] border-white/10 text-white">
+                    {raceSeasons.map((season) => (
+                      <SelectItem key={season} value={season} className="focus:bg-white/10 focus:text-white">
+                        {season}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {racesLoading && (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="h-14 bg-white/5 rounded-xl animate-pulse" />
+                ))}
+              </div>
+            )}
+            {racesError && (
+              <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+                <p className="text-red-400 text-sm">Nepodařilo se načíst výsledky jezdce</p>
+              </div>
+            )}
+            {!racesLoading && !racesError && seasonRaces.length === 0 && (
+              <div className="text-center py-8">
+                <p className="text-gray-500">Jezdec zatím neodjel žádný závod</p>
+              </div>
+            )}
+            {seasonRaces.length > 0 && (
+              <div className="space-y-1.5">
+                <div className="grid grid-cols-[2rem_1fr_2.5rem_3.5rem_2.5rem] items-center gap-2 px-3 text-[10px] font-bold uppercase tracking-wider text-gray-600">
+                  <span className="text-center">Kolo</span>
+                  <span>Velká cena</span>
+                  <span className="text-center">Start</span>
+                  <span className="text-center">Cíl</span>
+                  <span className="text-right">Body</span>
+                </div>
+                {seasonRaces.map((race) => (
+                  <SeasonRaceRow key={race.round} race={race} />
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </PageShell>
+  );
+};
+
+function StatCard({ icon: Icon, label, value, hint, highlight = false }: {
+  icon: typeof Flag;
+  label: string;
+  value: number;
+  hint?: string;
+  highlight?: boolean;
+}) {
+  return (
+    <div
+      title={hint}
+      className={`p-4 rounded-xl border ${highlight ? 'bg-gradient-to-br from-yellow-500/15 to-transparent border-yellow-500/30' : 'bg-white/[0.03] border-white/5'}`}
+    >
+      <div className="flex items-center gap-1.5 text-gray-500 text-xs font-medium mb-1">
+        <Icon className={`w-3.5 h-3.5 ${highlight ? 'text-yellow-400' : 'text-f1-red'}`} />
+        {label}
+      </div>
+      <p className="text-2xl font-black text-white tabular-nums">{value}</p>
+    </div>
+  );
+}
+
+function SeasonRaceRow({ race }: { race: RaceWithResults }) {
+  const result = race.Results[0];
+  if (!result) return null;
+  const classified = /^\d+$/.test(result.positionText);
+
+  return (
+    <Link
+      to={racePath(race.season, race.round, "results")}
+      className="grid grid-cols-[2rem_1fr_2.5rem_3.5rem_2.5rem] items-center gap-2 p-3 rounded-xl bg-white/[0.02] border border-white/5 hover:bg-white/[0.06] transition-all"
+    >
+      <span className="text-center text-sm font-bold text-gray-500 tabular-nums">{race.round}</span>
+      <div className="min-w-0">
+        <p className="text-sm font-bold text-white truncate">{race.raceName}</p>
+        <p className="text-xs text-gray-600 truncate">{result.Constructor.name}</p>
+      </div>
+      <span className="text-center text-sm text-gray-400 tabular-nums">{result.grid === 0 ? 'PL' : result.grid}</span>
+      <span
+        className={`text-center text-sm font-bold tabular-nums truncate ${!classified ? 'text-red-400' : isPodium(result) ? 'text-yellow-400' : 'text-white'}`}
+        title={result.status}
+      >
+        {classified ? `${result.position}.` : result.positionText === "R" ? 'DNF' : result.positionText}
+      </span>
+      <span className={`text-right text-sm font-bold tabular-nums ${result.points > 0 ? 'text-white' : 'text-gray-600'}`}>
+        {result.points > 0 ? result.points : '–'}
+      </span>
+    </Link>
+  );
+}
+
+export default DriverPage;
@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, type ReactNode } from "react";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useRaceSchedule, Race } from "@/services/f1Service";
 import { RaceCard } from "@/components/RaceCard";
@@ -6,18 +7,63 @@ import { RaceDetails } from "@/components/RaceDetails";
 import { DriverStandingsTable } from "@/components/DriverStandingsTable";
 import { ConstructorStandingsTable } from "@/components/ConstructorStandingsTable";
 import { HeroCountdown } from "@/components/HeroCountdown";
-import { CalendarDots, Medal, Flag } from "@phosphor-icons/react";
+import { SeasonSelect } from "@/components/SeasonSelect";
+import { StaleDataIndicator } from "@/components/StaleDataIndicator";
+import { ChampionshipProgression } from "@/components/ChampionshipProgression";
+import { ChampionshipMathPanel } from "@/components/ChampionshipMathPanel";
+import { CalendarExportMenu } from "@/components/CalendarExportMenu";
+import { useSeason } from "@/hooks/use-season";
+import { comparePath, racePath, seasonPath, sectionPath, type Section } from "@/lib/routes";
+import NotFound from "./NotFound";
+import { CalendarDots, Medal, Flag, Scales } from "@phosphor-icons/react";
 import { isWithinInterval, parseISO } from "date-fns";
 
-const Index = () => {
-  const { schedule, loading, error } = useRaceSchedule();
+interface IndexProps {
+  section: Section;
+}
+
+// Set on history entries pushed by opening a race from the page, so closing
+// the dialog can step back instead of stacking another entry
+interface RaceLinkState {
+  fromList?: boolean;
+}
+
+const Index = ({ section }: IndexProps) => {
+  const { season, currentSeason, isCurrentSeason, setSeason, invalid } = useSeason();
+  const { schedule, loading, error, updatedAt, refreshFailed } = useRaceSchedule(season);
+  const { round, tab } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const linkState = location.state as RaceLinkState | null;
+
+  // The race dialog is open whenever the URL names a round of this season;
+  // the last race is kept so the dialog can animate out after closing
+  const routeRace = round ? schedule.find((race) => race.round === Number(round)) ?? null : null;
   const [selectedRace, setSelectedRace] = useState<Race | null>(null);
-  const [detailsOpen, setDetailsOpen] = useState<boolean>(false);
-  const [activeTab, setActiveTab] = useState<string>("calendar");
+
+  useEffect(() => {
+    if (routeRace) setSelectedRace(routeRace);
+  }, [routeRace]);
+
+  const goTo = (next: Section) => {
+    if (season) navigate(sectionPath(season, next));
+  };
 
   const handleRaceClick = (race: Race) => {
-    setSelectedRace(race);
-    setDetailsOpen(true);
+    navigate(racePath(race.season, race.round), { state: { fromList: true } satisfies RaceLinkState });
+  };
+
+  const handleRaceClose = () => {
+    if (linkState?.fromList) navigate(-1);
+    else if (season) navigate(seasonPath(season));
+  };
+
+  const handleRaceTabChange = (next: string) => {
+    if (!routeRace) return;
+    navigate(racePath(routeRace.season, routeRace.round, next === "schedule" ? undefined : next), {
+      replace: true,
+      state: linkState,
+    });
   };
 
   const getEventDateRange = (race: Race) => {
@@ -55,16 +101,7 @@ const Index = () => {
   const currentRaces = schedule.filter(isRaceCurrent);
   const upcomingRaces = schedule.filter(race => !isRacePast(race) && !isRaceCurrent(race));
 
-  useEffect(() => {
-    const handleTabChange = (tab: string) => {
-      setActiveTab(tab);
-    };
-
-    document.addEventListener("tabChange", (e: CustomEvent<{ tab: string }>) => handleTabChange(e.detail.tab));
-    return () => {
-      document.removeEventListener("tabChange", (e: CustomEvent<{ tab: string }>) => handleTabChange(e.detail.tab));
-    };
-  }, []);
+  if (invalid) return <NotFound />;
 
   return (
     <div className="min-h-screen text-white relative flex flex-col">
@@ -86,32 +123,39 @@ const Index = () => {
                 <h1 className="text-lg font-bold text-white leading-none">
                   f1<span className="text-f1-red">.</span>stvr<span className="text-f1-red">.</span>cz
                 </h1>
-                <p className="text-[10px] text-gray-500 tracking-widest uppercase">Sezóna 2026</p>
+                <p className="text-[10px] text-gray-500 tracking-widest uppercase">Sezóna {season ?? "…"}</p>
               </div>
             </div>
 
-            {/* Desktop Navigation */}
-            <nav className="hidden md:flex items-center gap-1">
-              <NavButton
-                active={activeTab === "calendar"}
-                onClick={() => setActiveTab("calendar")}
-                icon={CalendarDots}
-                label="Závody"
-              />
-              <NavButton
-                active={activeTab === "drivers"}
-                onClick={() => setActiveTab("drivers")}
-                icon={Medal}
-                label="Jezdci"
-              />
-              <NavButton
-                active={activeTab === "constructors"}
-                onClick={() => setActiveTab("constructors")}
-                icon={Flag}
-                label="Týmy"
-              />
-            </nav>
+            <div className="flex items-center gap-3">
+              {/* Desktop Navigation */}
+              <nav className="hidden md:flex items-center gap-1">
+                <NavButton
+                  active={section === "calendar"}
+                  onClick={() => goTo("calendar")}
+                  icon={CalendarDots}
+                  label="Závody"
+                />
+                <NavButton
+                  active={section === "drivers"}
+                  onClick={() => goTo("drivers")}
+                  icon={Medal}
+                  label="Jezdci"
+                />
+                <NavButton
+                  active={section === "constructors"}
+                  onClick={() => goTo("constructors")}
+                  icon={Flag}
+                  label="Týmy"
+                />
+              </nav>
 
+              <SeasonSelect
+                season={season}
+                currentSeason={currentSeason}
+                onSeasonChange={setSeason}
+              />
+            </div>
           </div>
         </div>
         {/* Accent line */}
@@ -120,7 +164,7 @@ const Index = () => {
 
       {/* Main content */}
       <main className="relative z-10 flex-1 pb-24 sm:pb-10">
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <Tabs value={section} className="w-full">
           <TabsContent value="calendar" className="mt-0 focus-visible:outline-none">
             {/* Hero Countdown - only show when not loading and have races */}
             {!loading && !error && schedule.length > 0 && (
@@ -145,6 +189,11 @@ const Index = () => {
                 </div>
               ) : (
                 <div className="py-6 sm:py-8">
+                  <div className="flex flex-wrap items-center justify-end gap-3 mb-6">
+                    <StaleDataIndicator updatedAt={updatedAt} refreshFailed={refreshFailed} className="mr-auto" />
+                    <CalendarExportMenu season={season} races={schedule} />
+                  </div>
+
                   {/* Current races section */}
                   {currentRaces.length > 0 && (
                     <RaceSection
@@ -188,7 +237,7 @@ const Index = () => {
                       <div className="w-16 h-16 rounded-2xl bg-white/5 border border-white/10 flex items-center justify-center mx-auto mb-4">
                         <CalendarDots className="w-8 h-8 text-gray-600" />
                       </div>
-                      <p className="text-gray-400 font-medium">Pro sezónu 2026 zatím nejsou k dispozici žádná data.</p>
+                      <p className="text-gray-400 font-medium">Pro sezónu {season} zatím nejsou k dispozici žádná data.</p>
                     </div>
                   )}
                 </div>
@@ -201,9 +250,20 @@ const Index = () => {
             <div className="container mx-auto px-4 sm:px-6 py-6 sm:py-8">
               <SectionHeader
                 title="Šampionát jezdců"
-                subtitle="Aktuální pořadí v mistrovství světa"
+                subtitle={isCurrentSeason ? "Aktuální pořadí v mistrovství světa" : `Konečné pořadí mistrovství světa ${season}`}
+                action={
+                  <Link
+                    to={comparePath({ season }, { season })}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 text-gray-300 hover:bg-white/5 hover:text-white transition-all"
+                  >
+                    <Scales className="w-4 h-4 text-f1-red" />
+                    Srovnat jezdce
+                  </Link>
+                }
               />
-              <DriverStandingsTable />
+              <DriverStandingsTable season={season} />
+              <ChampionshipMathPanel season={season} kind="drivers" />
+              <ChampionshipProgression season={season} kind="drivers" />
             </div>
           </TabsContent>
 
@@ -212,9 +272,11 @@ const Index = () => {
             <div className="container mx-auto px-4 sm:px-6 py-6 sm:py-8">
               <SectionHeader
                 title="Pohár konstruktérů"
-                subtitle="Aktuální pořadí týmů v mistrovství"
+                subtitle={isCurrentSeason ? "Aktuální pořadí týmů v mistrovství" : `Konečné pořadí týmů v mistrovství ${season}`}
               />
-              <ConstructorStandingsTable />
+              <ConstructorStandingsTable season={season} />
+              <ChampionshipMathPanel season={season} kind="constructors" />
+              <ChampionshipProgression season={season} kind="constructors" />
             </div>
           </TabsContent>
         </Tabs>
@@ -225,20 +287,20 @@ const Index = () => {
         <div className="bg-black/95 backdrop-blur-2xl border-t border-white/5 pb-safe">
           <div className="flex items-center justify-around py-2 px-4">
             <MobileNavButton
-              active={activeTab === "calendar"}
-              onClick={() => setActiveTab("calendar")}
+              active={section === "calendar"}
+              onClick={() => goTo("calendar")}
               icon={CalendarDots}
               label="Závody"
             />
             <MobileNavButton
-              active={activeTab === "drivers"}
-              onClick={() => setActiveTab("drivers")}
+              active={section === "drivers"}
+              onClick={() => goTo("drivers")}
               icon={Medal}
               label="Jezdci"
             />
             <MobileNavButton
-              active={activeTab === "constructors"}
-              onClick={() => setActiveTab("constructors")}
+              active={section === "constructors"}
+              onClick={() => goTo("constructors")}
               icon={Flag}
               label="Týmy"
             />
@@ -268,8 +330,10 @@ const Index = () => {
       {/* Race details modal */}
       <RaceDetails
         race={selectedRace}
-        isOpen={detailsOpen}
-        onClose={() => setDetailsOpen(false)}
+        isOpen={!!routeRace}
+        onClose={handleRaceClose}
+        tab={tab}
+        onTabChange={handleRaceTabChange}
       />
     </div>
   );
@@ -328,11 +392,14 @@ function MobileNavButton({
   );
 }
 
-function SectionHeader({ title, subtitle }: { title: string; subtitle: string }) {
+function SectionHeader({ title, subtitle, action }: { title: string; subtitle: string; action?: ReactNode }) {
   return (
-    <div className="mb-8">
-      <h2 className="text-2xl sm:text-3xl font-black text-white mb-1">{title}</h2>
-      <p className="text-gray-500 text-sm">{subtitle}</p>
+    <div className="mb-8 flex flex-wrap items-end justify-between gap-3">
+      <div>
+        <h2 className="text-2xl sm:text-3xl font-black text-white mb-1">{title}</h2>
+        <p className="text-gray-500 text-sm">{subtitle}</p>
+      </div>
+      {action}
     </div>
   );
 }
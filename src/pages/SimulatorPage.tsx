@@ -0,0 +1,384 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { toast } from "sonner";
+import {
+  getDriverCode,
+  useConstructorStandings,
+  useDriverStandings,
+  useRaceSchedule,
+  useSeasonResults,
+  type DriverStanding,
+  type Race,
+} from "@/services/f1Service";
+import { PageShell } from "@/components/PageShell";
+import { useSeason } from "@/hooks/use-season";
+import { getRemainingRaces } from "@/lib/championship";
+import { getPointsRules, pointsFor } from "@/lib/pointsRules";
+import { simulatorPath } from "@/lib/routes";
+import { getTeamColor } from "@/lib/teamColors";
+import {
+  completeOrder,
+  decodeScenario,
+  encodeScenario,
+  loadScenario,
+  saveScenario,
+  simulateStandings,
+  type Scenario,
+  type SimulatedEntry,
+} from "@/lib/whatIf";
+import NotFound from "./NotFound";
+import { ArrowDown, ArrowUp, CaretDown, CaretUp, Lightning, ShareNetwork, Trash } from "@phosphor-icons/react";
+
+type Session = "race" | "sprint";
+type Table = "drivers" | "constructors";
+
+const SimulatorPage = () => {
+  const { season, invalid } = useSeason();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { schedule, loading: scheduleLoading } = useRaceSchedule(season);
+  const {
+    standings: driverStandings,
+    round: standingsRound,
+    loading: driversLoading,
+    error: driversError,
+  } = useDriverStandings(season);
+  const { standings: constructorStandings, loading: constructorsLoading } = useConstructorStandings(season);
+  const { races: results, loading: resultsLoading } = useSeasonResults(season);
+
+  const rules = useMemo(() => getPointsRules(season ?? ""), [season]);
+  // Rounds stay open until their points are in the standings
+  const remaining = useMemo(
+    () => (standingsRound === undefined ? [] : getRemainingRaces(schedule, standingsRound)),
+    [schedule, standingsRound]
+  );
+  const remainingRounds = useMemo(() => remaining.map((race) => race.round), [remaining]);
+  const driverIds = useMemo(() => driverStandings.map((standing) => standing.Driver.driverId), [driverStandings]);
+  const drivers = useMemo(
+    () => new Map(driverStandings.map((standing) => [standing.Driver.driverId, standing])),
+    [driverStandings]
+  );
+
+  // A shared link wins over the stored scenario; once loaded it's stored and
+  // the link parameter dropped, so edits aren't undone by a reload
+  const [scenario, setScenario] = useState<Scenario>({});
+  const [loadedSeason, setLoadedSeason] = useState<string>();
+  useEffect(() => {
+    if (!season || loadedSeason === season) return;
+    const shared = searchParams.get("s");
+    const encoded = shared ?? loadScenario(season);
+    setScenario((encoded && decodeScenario(encoded)) || {});
+    setLoadedSeason(season);
+    if (shared) setSearchParams({}, { replace: true });
+  }, [season, loadedSeason, searchParams, setSearchParams]);
+
+  useEffect(() => {
+    if (!season || loadedSeason !== season) return;
+    saveScenario(season, Object.keys(scenario).length > 0 ? encodeScenario(scenario) : null);
+  }, [season, loadedSeason, scenario]);
+
+  const [selectedRound, setSelectedRound] = useState<number>();
+  const activeRace = remaining.find((race) => race.round === selectedRound) ?? remaining[0];
+  const [session, setSession] = useState<Session>("race");
+  const [table, setTable] = useState<Table>("drivers");
+
+  const simulated = useMemo(
+    () => simulateStandings(driverStandings, constructorStandings, results, scenario, remainingRounds, rules),
+    [driverStandings, constructorStandings, results, scenario, remainingRounds, rules]
+  );
+
+  if (invalid) return <NotFound />;
+
+  const hasSprint = (race: Race) => !!race.Sprint && rules.sprint.length > 0;
+  const activeSession: Session = activeRace && session === "sprint" && hasSprint(activeRace) ? "sprint" : "race";
+  const predicted = activeRace ? scenario[activeRace.round] : undefined;
+  const order = predicted
+    ? completeOrder((activeSession === "sprint" ? predicted.sprint : predicted.race) ?? driverIds, driverIds)
+    : null;
+
+  const updateRound = (round: number, update: (current: Scenario[number] | undefined) => Scenario[number] | undefined) =>
+    setScenario((current) => {
+      const next = { ...current };
+      const value = update(current[round]);
+      if (value) next[round] = value;
+      else delete next[round];
+      return next;
+    });
+
+  const predictRound = (race: Race) =>
+    updateRound(race.round, () => ({ race: driverIds, ...(hasSprint(race) ? { sprint: driverIds } : {}) }));
+
+  const setOrder = (next: string[]) => {
+    if (!activeRace) return;
+    updateRound(activeRace.round, (current) => current && { ...current, [activeSession]: next });
+  };
+
+  const share = async () => {
+    if (!season) return;
+    const url = `${window.location.origin}${simulatorPath(season)}?s=${encodeScenario(scenario, rules)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Odkaz na scénář je ve schránce");
+    } catch {
+      toast.error("Odkaz se nepodařilo zkopírovat", { description: url });
+    }
+  };
+
+  const loading = scheduleLoading || driversLoading || constructorsLoading || resultsLoading;
+
+  return (
+    <PageShell title={season ? `Simulátor ${season}` : 'Simulátor'}>
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-bold text-white">Co kdyby…</h1>
+            <p className="text-xs text-gray-500">Seřaďte jezdce ve zbývajících kolech a sledujte, jak se změní pořadí šampionátu</p>
+          </div>
+          {Object.keys(scenario).length > 0 && (
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={share}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 text-gray-300 hover:bg-white/5 hover:text-white transition-all"
+              >
+                <ShareNetwork className="w-4 h-4 text-f1-red" />
+                Sdílet
+              </button>
+              <button
+                type="button"
+                onClick={() => setScenario({})}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border border-white/10 text-gray-300 hover:bg-white/5 hover:text-white transition-all"
+              >
+                <Trash className="w-4 h-4" />
+                Začít znovu
+              </button>
+            </div>
+          )}
+        </div>
+
+        {loading && (
+          <div className="space-y-2">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-14 bg-white/5 rounded-xl animate-pulse" />
+            ))}
+          </div>
+        )}
+
+        {!loading && driversError && (
+          <div className="p-4 rounded-xl bg-red-900/20 border border-red-900/30 text-center">
+            <p className="text-red-400 text-sm">Nepodařilo se načíst pořadí šampionátu</p>
+          </div>
+        )}
+
+        {!loading && !driversError && remaining.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">Sezóna {season} je u konce, není co simulovat</p>
+          </div>
+        )}
+
+        {!loading && !driversError && remaining.length > 0 && activeRace && (
+          <div className="grid lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)] gap-6">
+            {/* Predicted rounds */}
+            <section className="space-y-3">
+              <div className="flex flex-wrap gap-1.5">
+                {remaining.map((race) => (
+                  <button
+                    key={race.round}
+                    type="button"
+                    onClick={() => setSelectedRound(race.round)}
+                    className={`px-2.5 py-1 rounded-md text-[11px] font-medium border transition-all ${race.round === activeRace.round ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-gray-400 hover:bg-white/5'} ${scenario[race.round] ? 'ring-1 ring-f1-red/50' : ''}`}
+                  >
+                    {race.round}. {race.raceName.replace(/ Grand Prix$/, "")}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex gap-2">
+                  <SessionButton active={activeSession === "race"} onClick={() => setSession("race")} label="Závod" />
+                  {hasSprint(activeRace) && (
+                    <SessionButton active={activeSession === "sprint"} onClick={() => setSession("sprint")} label="Sprint" />
+                  )}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => remaining.filter((race) => !scenario[race.round]).forEach(predictRound)}
+                  className="text-[11px] text-gray-400 hover:text-white transition-colors"
+                >
+                  Vyplnit všechna kola podle šampionátu
+                </button>
+              </div>
+
+              {order ? (
+                <>
+                  <OrderList
+                    order={order}
+                    table={activeSession === "sprint" ? rules.sprint : rules.race}
+                    drivers={drivers}
+                    onChange={setOrder}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => updateRound(activeRace.round, () => undefined)}
+                    className="text-[11px] text-gray-500 hover:text-red-400 transition-colors"
+                  >
+                    Kolo nesimulovat
+                  </button>
+                </>
+              ) : (
+                <div className="text-center py-8 rounded-xl border border-dashed border-white/10">
+                  <p className="text-gray-500 text-sm mb-3">{activeRace.raceName} zatím není v simulaci</p>
+                  <button
+                    type="button"
+                    onClick={() => predictRound(activeRace)}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium border bg-white/10 border-white/20 text-white"
+                  >
+                    Simulovat toto kolo
+                  </button>
+                </div>
+              )}
+            </section>
+
+            {/* Live standings */}
+            <section className="space-y-3">
+              <div className="flex gap-2">
+                <SessionButton active={table === "drivers"} onClick={() => setTable("drivers")} label="Jezdci" />
+                <SessionButton active={table === "constructors"} onClick={() => setTable("constructors")} label="Týmy" />
+              </div>
+              <div className="space-y-1">
+                {table === "drivers"
+                  ? simulated.drivers.map((entry, index) => (
+                    <StandingRow
+                      key={entry.id}
+                      entry={entry}
+                      position={index + 1}
+                      name={`${entry.driver.givenName} ${entry.driver.familyName}`}
+                      color={getTeamColor(entry.constructor)}
+                    />
+                  ))
+                  : simulated.constructors.map((entry, index) => (
+                    <StandingRow
+                      key={entry.id}
+                      entry={entry}
+                      position={index + 1}
+                      name={entry.constructor.name}
+                      color={getTeamColor(entry.constructor)}
+                    />
+                  ))}
+              </div>
+              <p className="text-[11px] text-gray-500">
+                Při shodě bodů rozhoduje počet vítězství, pak druhých míst a tak dále (sprinty se nepočítají).
+                {rules.fastestLap > 0 && ' Bod za nejrychlejší kolo simulace nezapočítává.'} Scénář se ukládá v tomto prohlížeči.
+              </p>
+            </section>
+          </div>
+        )}
+      </div>
+    </PageShell>
+  );
+};
+
+function SessionButton({ active, onClick, label }: { active: boolean; onClick: () => void; label: string }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-all ${active ? 'bg-white/10 border-white/20 text-white' : 'border-white/5 text-gray-400 hover:bg-white/5'}`}
+    >
+      {label}
+    </button>
+  );
+}
+
+function OrderList({ order, table, drivers, onChange }: {
+  order: string[];
+  table: number[];
+  drivers: Map<string, DriverStanding>;
+  onChange: (order: string[]) => void;
+}) {
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length) return;
+    const next = [...order];
+    const [driverId] = next.splice(from, 1);
+    next.splice(to, 0, driverId);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      {order.map((driverId, index) => {
+        const standing = drivers.get(driverId);
+        if (!standing) return null;
+        const points = pointsFor(table, index + 1);
+        const constructor = standing.Constructors[standing.Constructors.length - 1];
+        return (
+          <div
+            key={driverId}
+            className={`flex items-center gap-2 p-2 rounded-lg border ${points > 0 ? 'bg-white/[0.04] border-white/10' : 'bg-white/[0.01] border-white/5'}`}
+          >
+            <span className="w-6 text-center text-sm font-black text-gray-400 tabular-nums">{index + 1}</span>
+            <span className="w-1 h-5 rounded-full" style={{ backgroundColor: getTeamColor(constructor) }} />
+            <span className="flex-1 min-w-0 text-sm font-bold text-white truncate">
+              {getDriverCode(standing.Driver)}
+              <span className="ml-2 font-normal text-gray-500">{standing.Driver.familyName}</span>
+            </span>
+            <span className="w-10 text-right text-xs text-gray-400 tabular-nums">{points > 0 ? `+${points}` : ''}</span>
+            <div className="flex">
+              <IconButton label="Na první místo" onClick={() => move(index, 0)} disabled={index === 0} icon={CaretUp} />
+              <IconButton label="O místo výš" onClick={() => move(index, index - 1)} disabled={index === 0} icon={ArrowUp} />
+              <IconButton label="O místo níž" onClick={() => move(index, index + 1)} disabled={index === order.length - 1} icon={ArrowDown} />
+              <IconButton label="Mimo body" onClick={() => move(index, Math.max(table.length, index))} disabled={index >= table.length} icon={CaretDown} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function IconButton({ label, onClick, disabled, icon: Icon }: {
+  label: string;
+  onClick: () => void;
+  disabled: boolean;
+  icon: typeof ArrowUp;
+}) {
+  return (
+    <button
+      type="button"
+      aria-label={label}
+      title={label}
+      onClick={onClick}
+      disabled={disabled}
+      className="p-1 rounded text-gray-500 hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+    >
+      <Icon className="w-3.5 h-3.5" />
+    </button>
+  );
+}
+
+function StandingRow({ entry, position, name, color }: {
+  entry: SimulatedEntry;
+  position: number;
+  name: string;
+  color: string;
+}) {
+  const gained = entry.points - entry.basePoints;
+  const moved = entry.basePosition ? entry.basePosition - position : 0;
+
+  return (
+    <div className="flex items-center gap-3 p-2.5 rounded-lg bg-white/[0.02] border border-white/5">
+      <span className="w-6 text-center text-sm font-black text-white tabular-nums">{position}</span>
+      <span className={`w-6 text-[11px] font-bold tabular-nums ${moved > 0 ? 'text-emerald-400' : moved < 0 ? 'text-red-400' : 'text-gray-600'}`}>
+        {moved > 0 ? `▲${moved}` : moved < 0 ? `▼${-moved}` : '–'}
+      </span>
+      <span className="w-1 h-5 rounded-full" style={{ backgroundColor: color }} />
+      <span className="flex-1 min-w-0 text-sm font-bold text-white truncate">{name}</span>
+      {gained > 0 && (
+        <span className="flex items-center gap-0.5 text-[11px] text-gray-400 tabular-nums">
+          <Lightning className="w-3 h-3 text-f1-red" />+{gained}
+        </span>
+      )}
+      <span className="w-12 text-right text-sm font-black text-white tabular-nums">{entry.points}</span>
+    </div>
+  );
+}
+
+export default SimulatorPage;
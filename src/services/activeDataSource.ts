@@ -0,0 +1,54 @@
+import type { F1DataSource } from "./dataSource";
+import { createJolpicaDataSource } from "./jolpicaDataSource";
+
+// The fixtures are only imported on first use, and only behind a comparison
+// Vite resolves at build time, so builds against Jolpica never emit (or
+// precache) the fixture chunks
+const createLazyFixtureDataSource = (): F1DataSource => {
+    let source: Promise<F1DataSource> | null = null;
+
+    return {
+        name: "fixture",
+        async get(path, params) {
+            if (!source) {
+                source = import("./fixtureDataSource").then(
+                    ({ createFixtureDataSource, loadDiskFixtures }) =>
+                        createFixtureDataSource(loadDiskFixtures())
+                );
+            }
+            return (await source).get(path, params);
+        },
+    };
+};
+
+// Picks the backend from VITE_F1_DATA_SOURCE ("jolpica" by default,
+// "fixture" to serve the recorded responses in /fixtures)
+const createDefaultDataSource = (): F1DataSource => {
+    if (import.meta.env.VITE_F1_DATA_SOURCE === "fixture") {
+        return createLazyFixtureDataSource();
+    }
+
+    const kind = import.meta.env.VITE_F1_DATA_SOURCE ?? "jolpica";
+
+    switch (kind) {
+        case "jolpica":
+            return createJolpicaDataSource(import.meta.env.VITE_JOLPICA_BASE_URL);
+        default:
+            throw new Error(`Unknown VITE_F1_DATA_SOURCE "${kind}"`);
+    }
+};
+
+let activeDataSource: F1DataSource | null = null;
+
+export const getF1DataSource = (): F1DataSource => {
+    if (!activeDataSource) {
+        activeDataSource = createDefaultDataSource();
+    }
+    return activeDataSource;
+};
+
+// Swap the backend at runtime, e.g. to run the app against in-memory
+// fixtures. Callers should clear the query cache afterwards.
+export const setF1DataSource = (source: F1DataSource) => {
+    activeDataSource = source;
+};
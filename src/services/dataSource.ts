@@ -0,0 +1,20 @@
+export type F1RequestParams = Record<string, string | number>;
+
+// Anything able to answer Jolpica-style requests with raw MRData JSON.
+// `path` is relative to the API root without the `.json` suffix, e.g.
+// "2026/5/results"; validation happens in f1Service, not here.
+export interface F1DataSource {
+    readonly name: string;
+    get(path: string, params?: F1RequestParams): Promise<unknown>;
+}
+
+// Transport-level failure of a data source (HTTP status, missing fixture)
+export class F1DataSourceError extends Error {
+    readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = "F1DataSourceError";
+        this.status = status;
+    }
+}
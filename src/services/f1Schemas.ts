@@ -0,0 +1,308 @@
+import { z } from "zod";
+
+// Jolpica serialises every number as a string; parse them once here so the
+// rest of the app can do arithmetic without parseFloat calls
+const numeric = z
+    .union([z.string(), z.number()])
+    .transform((value, ctx) => {
+        const parsed = typeof value === "number" ? value : Number(value);
+        if (value === "" || !Number.isFinite(parsed)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Expected a numeric string, received "${value}"`,
+            });
+            return z.NEVER;
+        }
+        return parsed;
+    });
+
+const sessionSchema = z.object({
+    date: z.string(),
+    time: z.string().optional(),
+});
+
+export const circuitSchema = z.object({
+    circuitId: z.string(),
+    url: z.string(),
+    circuitName: z.string(),
+    Location: z.object({
+        lat: z.string(),
+        long: z.string(),
+        locality: z.string(),
+        country: z.string(),
+    }),
+});
+
+export const raceSchema = z.object({
+    season: z.string(),
+    round: numeric,
+    url: z.string().optional(),
+    raceName: z.string(),
+    Circuit: circuitSchema,
+    date: z.string(),
+    time: z.string().optional(),
+    FirstPractice: sessionSchema.optional(),
+    SecondPractice: sessionSchema.optional(),
+    ThirdPractice: sessionSchema.optional(),
+    Qualifying: sessionSchema.optional(),
+    Sprint: sessionSchema.optional(),
+    SprintQualifying: sessionSchema.optional(),
+});
+
+// Historic drivers have no permanent number or three-letter code
+export const driverSchema = z.object({
+    driverId: z.string(),
+    permanentNumber: z.string().optional(),
+    code: z.string().optional(),
+    url: z.string().optional(),
+    givenName: z.string(),
+    familyName: z.string(),
+    dateOfBirth: z.string().optional(),
+    nationality: z.string().optional(),
+});
+
+export const constructorSchema = z.object({
+    constructorId: z.string(),
+    url: z.string().optional(),
+    name: z.string(),
+    nationality: z.string().optional(),
+});
+
+// `position` is omitted for excluded entries (e.g. Schumacher in 1997), which
+// only carry a `positionText`
+export const driverStandingSchema = z.object({
+    position: numeric.optional(),
+    positionText: z.string(),
+    points: numeric,
+    wins: numeric,
+    Driver: driverSchema,
+    Constructors: z.array(constructorSchema),
+});
+
+export const constructorStandingSchema = z.object({
+    position: numeric.optional(),
+    positionText: z.string(),
+    points: numeric,
+    wins: numeric,
+    Constructor: constructorSchema,
+});
+
+export const resultSchema = z.object({
+    number: numeric,
+    position: numeric,
+    positionText: z.string(),
+    points: numeric,
+    Driver: driverSchema,
+    Constructor: constructorSchema,
+    grid: numeric,
+    laps: numeric,
+    status: z.string(),
+    Time: z
+        .object({
+            millis: numeric.optional(),
+            time: z.string(),
+        })
+        .optional(),
+    FastestLap: z
+        .object({
+            rank: numeric.optional(),
+            lap: numeric,
+            Time: z.object({ time: z.string() }).optional(),
+            AverageSpeed: z
+                .object({ units: z.string(), speed: z.string() })
+                .optional(),
+        })
+        .optional(),
+});
+
+export const raceWithResultsSchema = raceSchema.extend({
+    Results: z.array(resultSchema),
+});
+
+export const raceWithSprintSchema = raceSchema.extend({
+    SprintResults: z.array(resultSchema),
+});
+
+// Q2/Q3 are only present for drivers who took part in that segment and are an
+// empty string when no lap was set
+export const qualifyingResultSchema = z.object({
+    number: numeric,
+    position: numeric,
+    Driver: driverSchema,
+    Constructor: constructorSchema,
+    Q1: z.string().optional(),
+    Q2: z.string().optional(),
+    Q3: z.string().optional(),
+});
+
+export const raceWithQualifyingSchema = raceSchema.extend({
+    QualifyingResults: z.array(qualifyingResultSchema),
+});
+
+// One lap of the race: every running driver's position as they crossed the line
+export const lapSchema = z.object({
+    number: numeric,
+    Timings: z.array(
+        z.object({
+            driverId: z.string(),
+            position: numeric,
+            time: z.string().optional(),
+        })
+    ),
+});
+
+export const raceWithLapsSchema = raceSchema.extend({
+    Laps: z.array(lapSchema),
+});
+
+// `duration` is seconds ("22.345"), or minutes once a stop runs long under a
+// red flag ("1:02.345"), so it's kept as text for parseLapTime
+export const pitStopSchema = z.object({
+    driverId: z.string(),
+    lap: numeric,
+    stop: numeric,
+    time: z.string(),
+    duration: z.string(),
+});
+
+export const raceWithPitStopsSchema = raceSchema.extend({
+    PitStops: z.array(pitStopSchema),
+});
+
+// MRData envelopes; every list endpoint reports its paging window
+const pageInfo = {
+    limit: numeric,
+    offset: numeric,
+    total: numeric,
+};
+
+const raceTableResponse = <T extends z.ZodTypeAny>(race: T) =>
+    z.object({
+        MRData: z.object({
+            ...pageInfo,
+            RaceTable: z.object({
+                season: z.string().optional(),
+                Races: z.array(race),
+            }),
+        }),
+    });
+
+const standingsResponse = <T extends z.ZodTypeAny>(list: T) =>
+    z.object({
+        MRData: z.object({
+            ...pageInfo,
+            StandingsTable: z.object({
+                season: z.string().optional(),
+                StandingsLists: z.array(list),
+            }),
+        }),
+    });
+
+export const driversResponseSchema = z.object({
+    MRData: z.object({
+        ...pageInfo,
+        DriverTable: z.object({
+            Drivers: z.array(driverSchema),
+        }),
+    }),
+});
+
+export const constructorsResponseSchema = z.object({
+    MRData: z.object({
+        ...pageInfo,
+        ConstructorTable: z.object({
+            Constructors: z.array(constructorSchema),
+        }),
+    }),
+});
+
+export const currentSeasonResponseSchema = z.object({
+    MRData: z.object({
+        RaceTable: z.object({ season: z.string() }),
+    }),
+});
+
+export const scheduleResponseSchema = raceTableResponse(raceSchema);
+
+export const raceResultsResponseSchema = raceTableResponse(
+    raceWithResultsSchema
+);
+
+export const sprintResultsResponseSchema = raceTableResponse(
+    raceWithSprintSchema
+);
+
+export const qualifyingResponseSchema = raceTableResponse(
+    raceWithQualifyingSchema
+);
+
+export const lapsResponseSchema = raceTableResponse(raceWithLapsSchema);
+
+export const pitStopsResponseSchema = raceTableResponse(
+    raceWithPitStopsSchema
+);
+
+export const driverStandingsResponseSchema = standingsResponse(
+    z.object({
+        season: z.string(),
+        round: numeric,
+        DriverStandings: z.array(driverStandingSchema),
+    })
+);
+
+export const constructorStandingsResponseSchema = standingsResponse(
+    z.object({
+        season: z.string(),
+        round: numeric,
+        ConstructorStandings: z.array(constructorStandingSchema),
+    })
+);
+
+export type Race = z.infer<typeof raceSchema>;
+export type Driver = z.infer<typeof driverSchema>;
+export type Constructor = z.infer<typeof constructorSchema>;
+export type DriverStanding = z.infer<typeof driverStandingSchema>;
+export type ConstructorStanding = z.infer<typeof constructorStandingSchema>;
+export type RaceResult = z.infer<typeof resultSchema>;
+export type RaceWithResults = z.infer<typeof raceWithResultsSchema>;
+export type RaceWithSprint = z.infer<typeof raceWithSprintSchema>;
+export type QualifyingResult = z.infer<typeof qualifyingResultSchema>;
+export type RaceWithQualifying = z.infer<typeof raceWithQualifyingSchema>;
+export type Lap = z.infer<typeof lapSchema>;
+export type RaceWithLaps = z.infer<typeof raceWithLapsSchema>;
+export type PitStop = z.infer<typeof pitStopSchema>;
+export type RaceWithPitStops = z.infer<typeof raceWithPitStopsSchema>;
+
+// Thrown when a Jolpica payload doesn't match the expected shape, so a format
+// change upstream surfaces as one readable message instead of broken UI
+export class F1SchemaError extends Error {
+    readonly endpoint: string;
+    readonly issues: z.ZodIssue[];
+
+    constructor(endpoint: string, error: z.ZodError) {
+        const details = error.issues
+            .slice(0, 3)
+            .map((issue) => `${issue.path.join(".") || "<root>"}: ${issue.message}`)
+            .join("; ");
+        const more =
+            error.issues.length > 3
+                ? ` (+${error.issues.length - 3} more)`
+                : "";
+        super(`Unexpected response from ${endpoint}: ${details}${more}`);
+        this.name = "F1SchemaError";
+        this.endpoint = endpoint;
+        this.issues = error.issues;
+    }
+}
+
+export const parseMRData = <T extends z.ZodTypeAny>(
+    schema: T,
+    data: unknown,
+    endpoint: string
+): z.output<T> => {
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+        throw new F1SchemaError(endpoint, parsed.error);
+    }
+    return parsed.data;
+};
@@ -1,303 +1,1035 @@
-import { useState, useEffect } from "react";
+import { useQueries, useQuery, type UseQueryResult } from "@tanstack/react-query";
+import { useMemo, useSyncExternalStore } from "react";
+import type { z } from "zod";
+import {
+    F1SchemaError,
+    constructorStandingsResponseSchema,
+    constructorsResponseSchema,
+    currentSeasonResponseSchema,
+    driverStandingsResponseSchema,
+    driversResponseSchema,
+    lapsResponseSchema,
+    parseMRData,
+    pitStopsResponseSchema,
+    qualifyingResponseSchema,
+    raceResultsResponseSchema,
+    scheduleResponseSchema,
+    sprintResultsResponseSchema,
+    type Constructor,
+    type ConstructorStanding,
+    type Driver,
+    type DriverStanding,
+    type Lap,
+    type PitStop,
+    type Race,
+    type RaceWithQualifying,
+    type RaceWithResults,
+    type RaceWithSprint,
+} from "./f1Schemas";
+import { getF1DataSource } from "./activeDataSource";
+import { F1DataSourceError, type F1RequestParams } from "./dataSource";
+import { F1RateLimitError, jolpicaScheduler } from "./requestScheduler";
+import {
+    fetchAllPages,
+    mergeRacePages,
+    mergeStandingsPages,
+} from "./pagination";
+import {
+    computeConstructorStandings,
+    computeDriverStandings,
+} from "./standingsEngine";
 
-// Types for F1 data
-export interface Race {
-    season: string;
-    round: string;
-    url: string;
-    raceName: string;
-    Circuit: {
-        circuitId: string;
-        url: string;
-        circuitName: string;
-        Location: {
-            lat: string;
-            long: string;
-            locality: string;
-            country: string;
-        };
-    };
-    date: string;
-    time: string;
-    FirstPractice?: { date: string; time: string };
-    SecondPractice?: { date: string; time: string };
-    ThirdPractice?: { date: string; time: string };
-    Qualifying?: { date: string; time: string };
-    Sprint?: { date: string; time: string };
-    SprintQualifying?: { date: string; time: string };
+// Types for F1 data, derived from the response schemas
+export type {
+    Constructor,
+    ConstructorStanding,
+    Driver,
+    DriverStanding,
+    Lap,
+    PitStop,
+    QualifyingResult,
+    Race,
+    RaceResult,
+    RaceWithQualifying,
+    RaceWithResults,
+    RaceWithSprint,
+} from "./f1Schemas";
+export { F1SchemaError } from "./f1Schemas";
+export { F1DataSourceError, type F1DataSource } from "./dataSource";
+export { getF1DataSource, setF1DataSource } from "./activeDataSource";
+export { F1RateLimitError } from "./requestScheduler";
+
+// Three-letter code for display; drivers before 2014 often have none
+export const getDriverCode = (driver: Driver): string =>
+    driver.code ?? driver.familyName.slice(0, 3).toUpperCase();
+
+// First season covered by Jolpica
+export const FIRST_SEASON = 1950;
+
+// Query keys shared by every f1 query, scoped by season so that switching
+// seasons never serves another season's cached data
+export const f1Keys = {
+    all: ["f1"] as const,
+    currentSeason: () => [...f1Keys.all, "current"] as const,
+    season: (season: string) => [...f1Keys.all, season] as const,
+    schedule: (season: string) =>
+        [...f1Keys.season(season), "schedule"] as const,
+    driverStandings: (season: string) =>
+        [...f1Keys.season(season), "driverStandings"] as const,
+    constructorStandings: (season: string) =>
+        [...f1Keys.season(season), "constructorStandings"] as const,
+    driverStandingsAfter: (season: string, round: number) =>
+        [...f1Keys.driverStandings(season), round] as const,
+    constructorStandingsAfter: (season: string, round: number) =>
+        [...f1Keys.constructorStandings(season), round] as const,
+    seasonResults: (season: string) =>
+        [...f1Keys.season(season), "results"] as const,
+    seasonSprints: (season: string) =>
+        [...f1Keys.season(season), "sprints"] as const,
+    raceResults: (season: string, round: number) =>
+        [...f1Keys.season(season), "results", round] as const,
+    sprintResults: (season: string, round: number) =>
+        [...f1Keys.season(season), "sprint", round] as const,
+    qualifying: (season: string, round: number) =>
+        [...f1Keys.season(season), "qualifying", round] as const,
+    driver: (driverId: string) => [...f1Keys.all, "driver", driverId] as const,
+    driverResults: (driverId: string) =>
+        [...f1Keys.driver(driverId), "results"] as const,
+    driverSeasons: (driverId: string) =>
+        [...f1Keys.driver(driverId), "seasons"] as const,
+    constructor: (constructorId: string) =>
+        [...f1Keys.all, "constructor", constructorId] as const,
+    constructorResults: (
+        constructorId: string,
+        filter: ConstructorResultsFilter
+    ) => [...f1Keys.constructor(constructorId), "results", filter] as const,
+    constructorSeasons: (constructorId: string) =>
+        [...f1Keys.constructor(constructorId), "seasons"] as const,
+    constructorSprints: (season: string, constructorId: string) =>
+        [...f1Keys.season(season), "constructor", constructorId, "sprint"] as const,
+    constructorQualifying: (season: string, constructorId: string) =>
+        [...f1Keys.season(season), "constructor", constructorId, "qualifying"] as const,
+    driverQualifying: (season: string, driverId: string) =>
+        [...f1Keys.season(season), "driver", driverId, "qualifying"] as const,
+    laps: (season: string, round: number) =>
+        [...f1Keys.season(season), "laps", round] as const,
+    pitStops: (season: string, round: number) =>
+        [...f1Keys.season(season), "pitstops", round] as const,
+};
+
+const getErrorMessage = (err: unknown, fallback: string) =>
+    err instanceof Error ? err.message : err ? fallback : null;
+
+// HTTP failures are already retried by the request scheduler and schema
+// errors won't fix themselves, so TanStack Query only retries the rest
+export const isRetryableF1Error = (err: unknown) =>
+    !(err instanceof F1DataSourceError) && !(err instanceof F1SchemaError);
+
+export const isRateLimitError = (err: unknown) =>
+    err instanceof F1RateLimitError ||
+    (err instanceof F1DataSourceError && err.status === 429);
+
+// Request a Jolpica path from the active data source and validate the MRData
+// payload against `schema`
+const fetchMRData = async <T extends z.ZodTypeAny>(
+    path: string,
+    schema: T,
+    description: string,
+    params?: F1RequestParams
+): Promise<z.output<T>> => {
+    let data: unknown;
+    try {
+        data = await getF1DataSource().get(path, params);
+    } catch (err) {
+        if (err instanceof F1DataSourceError) {
+            throw new F1DataSourceError(
+                `Failed to fetch ${description}: ${err.message}`,
+                err.status
+            );
+        }
+        throw err;
+    }
+
+    return parseMRData(schema, data, `/${path}`);
+};
+
+// Every page of a list endpoint, each validated against `schema`
+const fetchMRDataPages = <T extends z.ZodTypeAny>(
+    path: string,
+    schema: T,
+    description: string
+): Promise<z.output<T>[]> =>
+    fetchAllPages(
+        (limit, offset) =>
+            fetchMRData(path, schema, description, { limit, offset }),
+        (page) => page.MRData
+    );
+
+// Resolve which season Jolpica considers current
+export const fetchCurrentSeason = async (): Promise<string> => {
+    const data = await fetchMRData(
+        "current",
+        currentSeasonResponseSchema,
+        "current season"
+    );
+    return data.MRData.RaceTable.season;
+};
+
+// Fetch a season's race schedule
+export const fetchRaceSchedule = async (season: string): Promise<Race[]> => {
+    const pages = await fetchMRDataPages(
+        season,
+        scheduleResponseSchema,
+        "race schedule"
+    );
+    const races = mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+
+    if (races.length === 0) {
+        throw new Error("No race data available for the selected season");
+    }
+
+    return races;
+};
+
+// A standings table with the round it was published after
+export interface StandingsAfterRound<T> {
+    round: number;
+    standings: T[];
 }
 
-export interface RaceSchedule {
+// Fetch a season's latest driver standings, or the standings after `round`
+export const fetchDriverStandings = async (
+    season: string,
+    round?: number
+): Promise<StandingsAfterRound<DriverStanding>> => {
+    const pages = await fetchMRDataPages(
+        round ? `${season}/${round}/driverstandings` : `${season}/driverstandings`,
+        driverStandingsResponseSchema,
+        "driver standings"
+    );
+    const [list] = mergeStandingsPages(
+        pages.map((page) => page.MRData.StandingsTable.StandingsLists)
+    );
+
+    if (!list) {
+        throw new Error("No driver standings available");
+    }
+
+    return { round: list.round, standings: list.DriverStandings };
+};
+
+// Fetch a season's latest constructor standings, or the standings after `round`
+export const fetchConstructorStandings = async (
+    season: string,
+    round?: number
+): Promise<StandingsAfterRound<ConstructorStanding>> => {
+    const pages = await fetchMRDataPages(
+        round
+            ? `${season}/${round}/constructorstandings`
+            : `${season}/constructorstandings`,
+        constructorStandingsResponseSchema,
+        "constructor standings"
+    );
+    const [list] = mergeStandingsPages(
+        pages.map((page) => page.MRData.StandingsTable.StandingsLists)
+    );
+
+    if (!list) {
+        throw new Error("No constructor standings available");
+    }
+
+    return { round: list.round, standings: list.ConstructorStandings };
+};
+
+// A driver's biography (name, number, nationality, date of birth)
+export const fetchDriver = async (driverId: string): Promise<Driver> => {
+    const data = await fetchMRData(
+        `drivers/${encodeURIComponent(driverId)}`,
+        driversResponseSchema,
+        "driver"
+    );
+    const [driver] = data.MRData.DriverTable.Drivers;
+
+    if (!driver) {
+        throw new Error(`Unknown driver "${driverId}"`);
+    }
+
+    return driver;
+};
+
+// Every race a driver entered, oldest first, each carrying only their result
+export const fetchDriverResults = async (
+    driverId: string
+): Promise<RaceWithResults[]> => {
+    const pages = await fetchMRDataPages(
+        `drivers/${encodeURIComponent(driverId)}/results`,
+        raceResultsResponseSchema,
+        "driver results"
+    );
+    return mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+};
+
+export interface DriverSeasonStanding {
     season: string;
-    races: Race[];
+    // Round the standings were taken after; the last round of a finished season
+    round: number;
+    standing: DriverStanding;
 }
 
-export interface Driver {
-    driverId: string;
-    permanentNumber: string;
-    code: string;
-    url: string;
-    givenName: string;
-    familyName: string;
-    dateOfBirth: string;
-    nationality: string;
-}
+// A driver's championship standing at the end of every season they raced
+export const fetchDriverSeasonStandings = async (
+    driverId: string
+): Promise<DriverSeasonStanding[]> => {
+    const pages = await fetchMRDataPages(
+        `drivers/${encodeURIComponent(driverId)}/driverstandings`,
+        driverStandingsResponseSchema,
+        "driver season standings"
+    );
+    return mergeStandingsPages(
+        pages.map((page) => page.MRData.StandingsTable.StandingsLists)
+    ).flatMap((list) =>
+        list.DriverStandings.map((standing) => ({
+            season: list.season,
+            round: list.round,
+            standing,
+        }))
+    );
+};
 
-export interface Constructor {
-    constructorId: string;
-    url: string;
-    name: string;
-    nationality: string;
-}
+// A constructor's name, nationality and encyclopedia link
+export const fetchConstructor = async (
+    constructorId: string
+): Promise<Constructor> => {
+    const data = await fetchMRData(
+        `constructors/${encodeURIComponent(constructorId)}`,
+        constructorsResponseSchema,
+        "constructor"
+    );
+    const [constructor] = data.MRData.ConstructorTable.Constructors;
 
-export interface DriverStanding {
-    position: string;
-    positionText: string;
-    points: string;
-    wins: string;
-    Driver: Driver;
-    Constructors: Constructor[];
-}
+    if (!constructor) {
+        throw new Error(`Unknown constructor "${constructorId}"`);
+    }
 
-export interface ConstructorStanding {
-    position: string;
-    positionText: string;
-    points: string;
-    wins: string;
-    Constructor: Constructor;
-}
+    return constructor;
+};
 
-export interface DriverStandingsResponse {
-    season: string;
-    round: string;
-    DriverStandings: DriverStanding[];
+// Narrows a constructor's results, e.g. `{ position: 1 }` for its wins or
+// `{ grid: 1 }` for its poles, so history needs no full results download
+export interface ConstructorResultsFilter {
+    season?: string;
+    position?: number;
+    grid?: number;
 }
 
-export interface ConstructorStandingsResponse {
+// Races with the results of a constructor's cars, oldest first
+export const fetchConstructorResults = async (
+    constructorId: string,
+    { season, position, grid }: ConstructorResultsFilter = {}
+): Promise<RaceWithResults[]> => {
+    const path = [
+        season,
+        "constructors",
+        encodeURIComponent(constructorId),
+        grid && `grid/${grid}`,
+        "results",
+        position,
+    ]
+        .filter(Boolean)
+        .join("/");
+    const pages = await fetchMRDataPages(
+        path,
+        raceResultsResponseSchema,
+        "constructor results"
+    );
+    return mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+};
+
+// Sprints of a season with the results of a constructor's cars
+export const fetchConstructorSprints = async (
+    season: string,
+    constructorId: string
+): Promise<RaceWithSprint[]> => {
+    const pages = await fetchMRDataPages(
+        `${season}/constructors/${encodeURIComponent(constructorId)}/sprint`,
+        sprintResultsResponseSchema,
+        "constructor sprint results"
+    );
+    return mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+};
+
+export interface ConstructorSeasonStanding {
     season: string;
-    round: string;
-    ConstructorStandings: ConstructorStanding[];
+    round: number;
+    standing: ConstructorStanding;
 }
 
-export interface SessionResult {
-    position: string;
-    Driver: {
-        code: string;
-        givenName: string;
-        familyName: string;
+// A constructor's championship standing at the end of every season it raced
+export const fetchConstructorSeasonStandings = async (
+    constructorId: string
+): Promise<ConstructorSeasonStanding[]> => {
+    const pages = await fetchMRDataPages(
+        `constructors/${encodeURIComponent(constructorId)}/constructorstandings`,
+        constructorStandingsResponseSchema,
+        "constructor season standings"
+    );
+    return mergeStandingsPages(
+        pages.map((page) => page.MRData.StandingsTable.StandingsLists)
+    ).flatMap((list) =>
+        list.ConstructorStandings.map((standing) => ({
+            season: list.season,
+            round: list.round,
+            standing,
+        }))
+    );
+};
+
+// Helper function to get race results for a specific round
+export const fetchRaceResults = async (
+    season: string,
+    round: number
+): Promise<RaceWithResults> => {
+    const pages = await fetchMRDataPages(
+        `${season}/${round}/results`,
+        raceResultsResponseSchema,
+        "race results"
+    );
+    const [race] = mergeRacePages(
+        pages.map((page) => page.MRData.RaceTable.Races)
+    );
+
+    if (!race) {
+        throw new Error("No race results available");
+    }
+
+    return race;
+};
+
+// Sprint classification for a specific round of a sprint weekend; null until
+// Jolpica has published it
+export const fetchSprintResults = async (
+    season: string,
+    round: number
+): Promise<RaceWithSprint | null> => {
+    const pages = await fetchMRDataPages(
+        `${season}/${round}/sprint`,
+        sprintResultsResponseSchema,
+        "sprint results"
+    );
+    const [race] = mergeRacePages(
+        pages.map((page) => page.MRData.RaceTable.Races)
+    );
+
+    return race ?? null;
+};
+
+// Qualifying sessions of a season with the results of a constructor's cars
+export const fetchConstructorQualifying = async (
+    season: string,
+    constructorId: string
+): Promise<RaceWithQualifying[]> => {
+    const pages = await fetchMRDataPages(
+        `${season}/constructors/${encodeURIComponent(constructorId)}/qualifying`,
+        qualifyingResponseSchema,
+        "constructor qualifying results"
+    );
+    return mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+};
+
+// Every qualifying session of a driver in one season, each carrying only
+// their result. Jolpica has qualifying data from 1994 on.
+export const fetchDriverQualifying = async (
+    season: string,
+    driverId: string
+): Promise<RaceWithQualifying[]> => {
+    const pages = await fetchMRDataPages(
+        `${season}/drivers/${encodeURIComponent(driverId)}/qualifying`,
+        qualifyingResponseSchema,
+        "driver qualifying results"
+    );
+    return mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+};
+
+// Every race result of a season, oldest round first
+export const fetchSeasonResults = async (
+    season: string
+): Promise<RaceWithResults[]> => {
+    const pages = await fetchMRDataPages(
+        `${season}/results`,
+        raceResultsResponseSchema,
+        "season results"
+    );
+    return mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+};
+
+// Every sprint result of a season; empty before sprints existed
+export const fetchSeasonSprints = async (
+    season: string
+): Promise<RaceWithSprint[]> => {
+    const pages = await fetchMRDataPages(
+        `${season}/sprint`,
+        sprintResultsResponseSchema,
+        "season sprint results"
+    );
+    return mergeRacePages(pages.map((page) => page.MRData.RaceTable.Races));
+};
+
+// Qualifying classification with Q1/Q2/Q3 times for a specific round. Jolpica
+// publishes it a while after the session; until then this resolves to null.
+export const fetchQualifyingResults = async (
+    season: string,
+    round: number
+): Promise<RaceWithQualifying | null> => {
+    const pages = await fetchMRDataPages(
+        `${season}/${round}/qualifying`,
+        qualifyingResponseSchema,
+        "qualifying results"
+    );
+    const [race] = mergeRacePages(
+        pages.map((page) => page.MRData.RaceTable.Races)
+    );
+
+    return race ?? null;
+};
+
+// Every driver's position on every lap of a round. Jolpica has lap data from
+// 1996 on; older races resolve to an empty list.
+export const fetchLaps = async (
+    season: string,
+    round: number
+): Promise<Lap[]> => {
+    const pages = await fetchMRDataPages(
+        `${season}/${round}/laps`,
+        lapsResponseSchema,
+        "lap positions"
+    );
+    const [race] = mergeRacePages(
+        pages.map((page) => page.MRData.RaceTable.Races)
+    );
+
+    return race?.Laps ?? [];
+};
+
+// Pit stops of a round, recorded from 2011 on; empty for older races
+export const fetchPitStops = async (
+    season: string,
+    round: number
+): Promise<PitStop[]> => {
+    const pages = await fetchMRDataPages(
+        `${season}/${round}/pitstops`,
+        pitStopsResponseSchema,
+        "pit stops"
+    );
+    const [race] = mergeRacePages(
+        pages.map((page) => page.MRData.RaceTable.Races)
+    );
+
+    return race?.PitStops ?? [];
+};
+
+// Live state of the Jolpica request queue, e.g. to tell users the API is
+// throttling us
+export const useRequestSchedulerStatus = () =>
+    useSyncExternalStore(jolpicaScheduler.subscribe, jolpicaScheduler.getStatus);
+
+// Marks queries whose data is kept in the offline cache
+const persisted = { persist: true };
+
+// Shared fallback for list hooks without data, so memos and effects keyed on
+// a list don't see a new empty array on every render
+const EMPTY_LIST: never[] = [];
+
+// Loading/error flags shared by every hook. Cached data always wins over an
+// error, so a failed background refresh leaves the last known data on screen
+// and only flips `refreshFailed`.
+const getQueryState = (query: UseQueryResult<unknown>, fallback: string) => {
+    const hasData = query.data !== undefined;
+    const offline = query.fetchStatus === "paused";
+
+    return {
+        loading: query.isPending && !offline,
+        error: hasData
+            ? null
+            : offline
+              ? "You are offline and no saved data is available"
+              : getErrorMessage(query.error, fallback),
+        updatedAt: query.dataUpdatedAt || null,
+        refreshFailed: hasData && (query.isRefetchError || offline),
+    };
+};
+
+// Current season as reported by Jolpica; undefined while loading and the
+// calendar year when the API can't be reached
+export const useCurrentSeason = () => {
+    const query = useQuery({
+        queryKey: f1Keys.currentSeason(),
+        queryFn: fetchCurrentSeason,
+        staleTime: 60 * 60 * 1000,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch current season");
+
+    return {
+        currentSeason:
+            query.data ??
+            (state.error ? String(new Date().getFullYear()) : undefined),
+        ...state,
     };
-    Constructor: {
-        name: string;
+};
+
+// Season's race schedule
+export const useRaceSchedule = (season: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.schedule(season),
+        queryFn: () => fetchRaceSchedule(season),
+        enabled: !!season,
+        meta: persisted,
+    });
+
+    return {
+        schedule: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch race schedule"),
     };
-    Time: {
-        time: string;
+};
+
+// The standings feed often lags the results by hours after a race. In the
+// current season standings are also derived from the results, and those are
+// shown (flagged `provisional`) only while the results cover rounds the feed
+// hasn't published yet. Once it catches up the feed wins, as it also carries
+// penalties, disqualifications and shared drives the results can't show.
+const useResultStandings = <T>(
+    season: string | undefined,
+    officialRound: number | undefined,
+    officialPending: boolean,
+    compute: (results: RaceWithResults[], sprints: RaceWithSprint[]) => T[]
+): StandingsAfterRound<T> | null => {
+    const { currentSeason } = useCurrentSeason();
+    const live = !!season && season === currentSeason;
+    const results = useSeasonResults(live ? season : undefined);
+    const sprints = useSeasonSprints(live ? season : undefined);
+    const ready = live && !officialPending && !!results.updatedAt && !!sprints.updatedAt;
+
+    return useMemo(() => {
+        if (!ready) return null;
+        const latestRound = Math.max(0, ...results.races.map((race) => race.round));
+        if (latestRound <= (officialRound ?? 0)) return null;
+        // A sprint run ahead of the latest race isn't scored yet either
+        const sprintsSoFar = sprints.sprints.filter((race) => race.round <= latestRound);
+        const computed = compute(results.races, sprintsSoFar);
+        return computed.length > 0 ? { round: latestRound, standings: computed } : null;
+    }, [ready, results.races, sprints.sprints, officialRound, compute]);
+};
+
+// Driver standings, provisional while they're ahead of the standings feed
+export const useDriverStandings = (season: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.driverStandings(season),
+        queryFn: () => fetchDriverStandings(season),
+        enabled: !!season,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch driver standings");
+    const provisional = useResultStandings(
+        season,
+        query.data?.round,
+        state.loading,
+        computeDriverStandings
+    );
+
+    return {
+        standings: (provisional ?? query.data)?.standings ?? EMPTY_LIST,
+        // Round the standings were computed after; rounds past it are still to score
+        round: (provisional ?? query.data)?.round,
+        ...state,
+        error: provisional ? null : state.error,
+        provisional: !!provisional,
     };
-    laps: string;
-    gap: string;
-    interval: string;
-}
+};
 
-// Base URL for Jolpica API (Ergast successor)
-const JOLPICA_BASE_URL = "https://api.jolpi.ca/ergast/f1";
-const CURRENT_YEAR = "2026";
-
-// Fetch the current season's race schedule
-export const useRaceSchedule = () => {
-    const [schedule, setSchedule] = useState<Race[]>([]);
-    const [loading, setLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
-
-    useEffect(() => {
-        const fetchSchedule = async () => {
-            try {
-                setLoading(true);
-
-                // Fetch race schedule from Jolpica API
-                const response = await fetch(
-                    `${JOLPICA_BASE_URL}/${CURRENT_YEAR}.json`
-                );
-
-                if (!response.ok) {
-                    throw new Error(
-                        `Failed to fetch race schedule: ${response.status}`
-                    );
-                }
-
-                const data = await response.json();
-
-                if (
-                    !data ||
-                    !data.MRData ||
-                    !data.MRData.RaceTable ||
-                    !data.MRData.RaceTable.Races ||
-                    data.MRData.RaceTable.Races.length === 0
-                ) {
-                    throw new Error(
-                        "No race data available for the selected season"
-                    );
-                }
-
-                setSchedule(data.MRData.RaceTable.Races);
-                setLoading(false);
-                setError(null);
-            } catch (err: unknown) {
-                console.error("Error fetching schedule:", err);
-                setError(
-                    err instanceof Error
-                        ? err.message
-                        : "Failed to fetch race schedule"
-                );
-                setSchedule([]);
-                setLoading(false);
-            }
-        };
-
-        fetchSchedule();
-    }, []);
-
-    return { schedule, loading, error };
-};
-
-// Fetch driver standings
-export const useDriverStandings = () => {
-    const [standings, setStandings] = useState<DriverStanding[]>([]);
-    const [loading, setLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
-
-    useEffect(() => {
-        const fetchDriverStandings = async () => {
-            try {
-                setLoading(true);
-
-                const response = await fetch(
-                    `${JOLPICA_BASE_URL}/${CURRENT_YEAR}/driverstandings.json`
-                );
-
-                if (!response.ok) {
-                    throw new Error(
-                        `Failed to fetch driver standings: ${response.status}`
-                    );
-                }
-
-                const data = await response.json();
-
-                if (
-                    !data ||
-                    !data.MRData ||
-                    !data.MRData.StandingsTable ||
-                    !data.MRData.StandingsTable.StandingsLists ||
-                    data.MRData.StandingsTable.StandingsLists.length === 0
-                ) {
-                    throw new Error("No driver standings available");
-                }
-
-                const driverStandings =
-                    data.MRData.StandingsTable.StandingsLists[0]
-                        .DriverStandings;
-                setStandings(driverStandings);
-                setLoading(false);
-                setError(null);
-            } catch (err: unknown) {
-                console.error("Error fetching driver standings:", err);
-                setError(
-                    err instanceof Error
-                        ? err.message
-                        : "Failed to fetch driver standings"
-                );
-                setStandings([]);
-                setLoading(false);
-            }
-        };
-
-        fetchDriverStandings();
-    }, []);
-
-    return { standings, loading, error };
-};
-
-// Fetch constructor standings
-export const useConstructorStandings = () => {
-    const [standings, setStandings] = useState<ConstructorStanding[]>([]);
-    const [loading, setLoading] = useState<boolean>(true);
-    const [error, setError] = useState<string | null>(null);
-
-    useEffect(() => {
-        const fetchConstructorStandings = async () => {
-            try {
-                setLoading(true);
-
-                const response = await fetch(
-                    `${JOLPICA_BASE_URL}/${CURRENT_YEAR}/constructorstandings.json`
-                );
-
-                if (!response.ok) {
-                    throw new Error(
-                        `Failed to fetch constructor standings: ${response.status}`
-                    );
-                }
-
-                const data = await response.json();
-
-                if (
-                    !data ||
-                    !data.MRData ||
-                    !data.MRData.StandingsTable ||
-                    !data.MRData.StandingsTable.StandingsLists ||
-                    data.MRData.StandingsTable.StandingsLists.length === 0
-                ) {
-                    throw new Error("No constructor standings available");
-                }
-
-                const constructorStandings =
-                    data.MRData.StandingsTable.StandingsLists[0]
-                        .ConstructorStandings;
-                setStandings(constructorStandings);
-                setLoading(false);
-                setError(null);
-            } catch (err: unknown) {
-                console.error("Error fetching constructor standings:", err);
-                setError(
-                    err instanceof Error
-                        ? err.message
-                        : "Failed to fetch constructor standings"
-                );
-                setStandings([]);
-                setLoading(false);
-            }
-        };
-
-        fetchConstructorStandings();
-    }, []);
-
-    return { standings, loading, error };
+// Constructor standings, provisional while they're ahead of the standings feed
+export const useConstructorStandings = (season: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.constructorStandings(season),
+        queryFn: () => fetchConstructorStandings(season),
+        enabled: !!season,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch constructor standings");
+    const provisional = useResultStandings(
+        season,
+        query.data?.round,
+        state.loading,
+        computeConstructorStandings
+    );
+
+    return {
+        standings: (provisional ?? query.data)?.standings ?? EMPTY_LIST,
+        // Round the standings were computed after; rounds past it are still to score
+        round: (provisional ?? query.data)?.round,
+        ...state,
+        error: provisional ? null : state.error,
+        provisional: !!provisional,
+    };
 };
 
-// Helper function to get race results for a specific round
-export const fetchRaceResults = async (season: string, round: string) => {
-    try {
-        const response = await fetch(
-            `${JOLPICA_BASE_URL}/${season}/${round}/results.json`
-        );
+// Driver biography; not tied to a season
+export const useDriver = (driverId: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.driver(driverId),
+        queryFn: () => fetchDriver(driverId),
+        enabled: !!driverId,
+        staleTime: 24 * 60 * 60 * 1000,
+        meta: persisted,
+    });
 
-        if (!response.ok) {
-            throw new Error(`Failed to fetch race results: ${response.status}`);
-        }
+    return {
+        driver: query.data ?? null,
+        ...getQueryState(query, "Failed to fetch driver"),
+    };
+};
 
-        const data = await response.json();
+// Career race results of a driver
+export const useDriverResults = (driverId: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.driverResults(driverId),
+        queryFn: () => fetchDriverResults(driverId),
+        enabled: !!driverId,
+        meta: persisted,
+    });
 
-        if (
-            !data ||
-            !data.MRData ||
-            !data.MRData.RaceTable ||
-            !data.MRData.RaceTable.Races ||
-            data.MRData.RaceTable.Races.length === 0
-        ) {
-            throw new Error("No race results available");
-        }
+    return {
+        races: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch driver results"),
+    };
+};
 
-        return data.MRData.RaceTable.Races[0];
-    } catch (err) {
-        console.error("Error fetching race results:", err);
-        throw err;
-    }
+// Final standing of a driver in each of their seasons
+export const useDriverSeasonStandings = (driverId: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.driverSeasons(driverId),
+        queryFn: () => fetchDriverSeasonStandings(driverId),
+        enabled: !!driverId,
+        meta: persisted,
+    });
+
+    return {
+        seasons: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch driver seasons"),
+    };
+};
+
+// Constructor name and nationality; not tied to a season
+export const useConstructor = (constructorId: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.constructor(constructorId),
+        queryFn: () => fetchConstructor(constructorId),
+        enabled: !!constructorId,
+        staleTime: 24 * 60 * 60 * 1000,
+        meta: persisted,
+    });
+
+    return {
+        constructor: query.data ?? null,
+        ...getQueryState(query, "Failed to fetch constructor"),
+    };
+};
+
+// A constructor's results, narrowed by `filter`
+export const useConstructorResults = (
+    constructorId: string | undefined,
+    filter: ConstructorResultsFilter,
+    enabled: boolean = true
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.constructorResults(constructorId, filter),
+        queryFn: () => fetchConstructorResults(constructorId, filter),
+        enabled: enabled && !!constructorId,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch constructor results");
+
+    return {
+        races: query.data ?? EMPTY_LIST,
+        ...state,
+        loading: state.loading && query.isFetching,
+    };
+};
+
+// A constructor's sprint results in one season
+export const useConstructorSprints = (
+    season: string | undefined,
+    constructorId: string | undefined
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.constructorSprints(season, constructorId),
+        queryFn: () => fetchConstructorSprints(season, constructorId),
+        enabled: !!season && !!constructorId,
+        meta: persisted,
+    });
+
+    return {
+        sprints: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch constructor sprint results"),
+    };
+};
+
+// Final standing of a constructor in each of its seasons
+export const useConstructorSeasonStandings = (
+    constructorId: string | undefined
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.constructorSeasons(constructorId),
+        queryFn: () => fetchConstructorSeasonStandings(constructorId),
+        enabled: !!constructorId,
+        meta: persisted,
+    });
+
+    return {
+        seasons: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch constructor seasons"),
+    };
+};
+
+// Standings after a finished round only change on a late penalty
+const ROUND_STANDINGS_STALE_TIME = 24 * 60 * 60 * 1000;
+
+// Combine one query per round into the rounds loaded so far. A round whose
+// standings aren't published yet is left out rather than failing the lot.
+const getProgressionState = <T>(
+    rounds: number[],
+    queries: UseQueryResult<StandingsAfterRound<T>>[],
+    fallback: string
+) => {
+    const loaded: StandingsAfterRound<T>[] = [];
+    queries.forEach((query, index) => {
+        if (query.data) loaded.push({ round: rounds[index], standings: query.data.standings });
+    });
+    const failed = queries.find((query) => query.isError && !query.data);
+
+    return {
+        rounds: loaded,
+        loading: queries.some(
+            (query) => query.isPending && query.fetchStatus === "fetching"
+        ),
+        error:
+            loaded.length === 0 && failed
+                ? getErrorMessage(failed.error, fallback)
+                : null,
+    };
+};
+
+// Driver standings after each of `rounds`, to show how the title fight evolved
+export const useDriverStandingsProgression = (
+    season: string | undefined,
+    rounds: number[]
+) => {
+    const queries = useQueries({
+        queries: rounds.map((round) => ({
+            queryKey: f1Keys.driverStandingsAfter(season, round),
+            queryFn: () => fetchDriverStandings(season, round),
+            enabled: !!season,
+            staleTime: ROUND_STANDINGS_STALE_TIME,
+            meta: persisted,
+        })),
+    });
+
+    return getProgressionState(rounds, queries, "Failed to fetch driver standings");
+};
+
+// Constructor standings after each of `rounds`
+export const useConstructorStandingsProgression = (
+    season: string | undefined,
+    rounds: number[]
+) => {
+    const queries = useQueries({
+        queries: rounds.map((round) => ({
+            queryKey: f1Keys.constructorStandingsAfter(season, round),
+            queryFn: () => fetchConstructorStandings(season, round),
+            enabled: !!season,
+            staleTime: ROUND_STANDINGS_STALE_TIME,
+            meta: persisted,
+        })),
+    });
+
+    return getProgressionState(
+        rounds,
+        queries,
+        "Failed to fetch constructor standings"
+    );
+};
+
+// All race results of a season so far; only fetched while `enabled`
+export const useSeasonResults = (
+    season: string | undefined,
+    enabled: boolean = true
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.seasonResults(season),
+        queryFn: () => fetchSeasonResults(season),
+        enabled: enabled && !!season,
+        meta: persisted,
+    });
+
+    return {
+        races: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch season results"),
+    };
+};
+
+// All sprint results of a season so far
+export const useSeasonSprints = (season: string | undefined) => {
+    const query = useQuery({
+        queryKey: f1Keys.seasonSprints(season),
+        queryFn: () => fetchSeasonSprints(season),
+        enabled: !!season,
+        meta: persisted,
+    });
+
+    return {
+        sprints: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch season sprint results"),
+    };
+};
+
+// Results of a single round; only fetched while `enabled` so that upcoming
+// races don't hit the API
+export const useRaceResults = (
+    season: string | undefined,
+    round: number | undefined,
+    enabled: boolean = true
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.raceResults(season, round),
+        queryFn: () => fetchRaceResults(season, round),
+        enabled: enabled && !!season && !!round,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch race results");
+
+    return {
+        results: query.data ?? null,
+        ...state,
+        loading: state.loading && query.isFetching,
+    };
+};
+
+// A constructor's qualifying results across one season
+export const useConstructorQualifying = (
+    season: string | undefined,
+    constructorId: string | undefined
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.constructorQualifying(season, constructorId),
+        queryFn: () => fetchConstructorQualifying(season, constructorId),
+        enabled: !!season && !!constructorId,
+        meta: persisted,
+    });
+
+    return {
+        races: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch constructor qualifying"),
+    };
+};
+
+// A driver's qualifying results across one season
+export const useDriverQualifying = (
+    season: string | undefined,
+    driverId: string | undefined
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.driverQualifying(season, driverId),
+        queryFn: () => fetchDriverQualifying(season, driverId),
+        enabled: !!season && !!driverId,
+        meta: persisted,
+    });
+
+    return {
+        races: query.data ?? EMPTY_LIST,
+        ...getQueryState(query, "Failed to fetch driver qualifying"),
+    };
+};
+
+// Qualifying of a single round; enable once the session is over
+export const useQualifyingResults = (
+    season: string | undefined,
+    round: number | undefined,
+    enabled: boolean = true
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.qualifying(season, round),
+        queryFn: () => fetchQualifyingResults(season, round),
+        enabled: enabled && !!season && !!round,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch qualifying results");
+
+    return {
+        qualifying: query.data ?? null,
+        ...state,
+        loading: state.loading && query.isFetching,
+    };
+};
+
+// Sprint of a single round; enable once the sprint has been run
+export const useSprintResults = (
+    season: string | undefined,
+    round: number | undefined,
+    enabled: boolean = true
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.sprintResults(season, round),
+        queryFn: () => fetchSprintResults(season, round),
+        enabled: enabled && !!season && !!round,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch sprint results");
+
+    return {
+        sprint: query.data ?? null,
+        ...state,
+        loading: state.loading && query.isFetching,
+    };
+};
+
+// Lap-by-lap positions of a finished round; a dozen or more pages, so only
+// enable it where the chart is actually shown
+export const useLaps = (
+    season: string | undefined,
+    round: number | undefined,
+    enabled: boolean = true
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.laps(season, round),
+        queryFn: () => fetchLaps(season, round),
+        enabled: enabled && !!season && !!round,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch lap positions");
+
+    return {
+        laps: query.data ?? EMPTY_LIST,
+        ...state,
+        loading: state.loading && query.isFetching,
+    };
+};
+
+// Pit stops of a finished round
+export const usePitStops = (
+    season: string | undefined,
+    round: number | undefined,
+    enabled: boolean = true
+) => {
+    const query = useQuery({
+        queryKey: f1Keys.pitStops(season, round),
+        queryFn: () => fetchPitStops(season, round),
+        enabled: enabled && !!season && !!round,
+        meta: persisted,
+    });
+    const state = getQueryState(query, "Failed to fetch pit stops");
+
+    return {
+        pitStops: query.data ?? EMPTY_LIST,
+        ...state,
+        loading: state.loading && query.isFetching,
+    };
 };
@@ -0,0 +1,38 @@
+import { F1DataSourceError, type F1DataSource } from "./dataSource";
+
+// Recorded MRData payloads keyed by request path, e.g. "2025/1/results"
+export type F1Fixtures = Record<string, unknown | (() => Promise<unknown>)>;
+
+// Every JSON file under /fixtures, lazily imported; the file path mirrors the
+// API path so `fixtures/2025/1/results.json` answers "2025/1/results"
+export const loadDiskFixtures = (): F1Fixtures => {
+    const files = import.meta.glob<unknown>("/fixtures/**/*.json", {
+        import: "default",
+    });
+
+    return Object.fromEntries(
+        Object.entries(files).map(([file, load]) => [
+            file.replace(/^\/fixtures\//, "").replace(/\.json$/, ""),
+            load,
+        ])
+    );
+};
+
+// Serves fixtures from memory. Query parameters are ignored: a fixture is
+// the complete response, and its MRData.total reflects that.
+export const createFixtureDataSource = (
+    fixtures: F1Fixtures
+): F1DataSource => ({
+    name: "fixture",
+    async get(path) {
+        if (!(path in fixtures)) {
+            throw new F1DataSourceError(
+                `no fixture recorded for /${path}`,
+                404
+            );
+        }
+
+        const fixture = fixtures[path];
+        return typeof fixture === "function" ? fixture() : fixture;
+    },
+});
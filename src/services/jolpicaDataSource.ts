@@ -0,0 +1,30 @@
+import type { F1DataSource, F1RequestParams } from "./dataSource";
+import { jolpicaScheduler, type RequestScheduler } from "./requestScheduler";
+
+// Base URL for Jolpica API (Ergast successor)
+const JOLPICA_BASE_URL = "https://api.jolpi.ca/ergast/f1";
+
+export const buildJolpicaUrl = (
+    baseUrl: string,
+    path: string,
+    params?: F1RequestParams
+) => {
+    const query = params
+        ? new URLSearchParams(
+              Object.entries(params).map(([key, value]) => [key, String(value)])
+          ).toString()
+        : "";
+    return `${baseUrl}/${path}.json${query ? `?${query}` : ""}`;
+};
+
+// Every request goes through the shared scheduler so that all Jolpica
+// traffic respects its rate limits
+export const createJolpicaDataSource = (
+    baseUrl: string = JOLPICA_BASE_URL,
+    scheduler: RequestScheduler = jolpicaScheduler
+): F1DataSource => ({
+    name: "jolpica",
+    get(path, params) {
+        return scheduler.fetchJson(buildJolpicaUrl(baseUrl, path, params));
+    },
+});
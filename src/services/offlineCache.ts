@@ -0,0 +1,109 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+
+// Snapshot of a successful query, kept in IndexedDB so the PWA can show the
+// last known data on start and while offline
+export interface OfflineCacheEntry {
+    hash: string;
+    // CACHE_VERSION the entry was written with
+    version: number;
+    queryKey: QueryKey;
+    data: unknown;
+    updatedAt: number;
+}
+
+const DB_NAME = "f1-offline-cache";
+const DB_VERSION = 1;
+const STORE = "queries";
+// Bump whenever the shape of cached query data changes, e.g. a schema or a
+// service's return type. Entries from another version are dropped on restore
+// instead of being handed to components that expect the new shape.
+const CACHE_VERSION = 2;
+// Entries older than this are dropped instead of restored
+const MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === "undefined") {
+                reject(new Error("IndexedDB is not available"));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE, { keyPath: "hash" });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Let a later call try again, e.g. after private mode was left
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+};
+
+const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const readOfflineEntries = () =>
+    runTransaction<OfflineCacheEntry[]>("readonly", (store) => store.getAll());
+
+export const writeOfflineEntry = (entry: OfflineCacheEntry) =>
+    runTransaction("readwrite", (store) => store.put(entry));
+
+export const deleteOfflineEntry = (hash: string) =>
+    runTransaction("readwrite", (store) => store.delete(hash));
+
+// Seed the query cache with stored snapshots. They keep their original
+// timestamp, so queries treat them as stale and refetch in the background.
+export const restoreOfflineCache = async (queryClient: QueryClient) => {
+    try {
+        const entries = await readOfflineEntries();
+        const now = Date.now();
+
+        for (const entry of entries) {
+            if (entry.version !== CACHE_VERSION || now - entry.updatedAt > MAX_AGE_MS) {
+                void deleteOfflineEntry(entry.hash).catch(() => undefined);
+                continue;
+            }
+            if (queryClient.getQueryData(entry.queryKey) === undefined) {
+                queryClient.setQueryData(entry.queryKey, entry.data, {
+                    updatedAt: entry.updatedAt,
+                });
+            }
+        }
+    } catch (err) {
+        console.warn("Offline cache unavailable:", err);
+    }
+};
+
+// Store every successful fetch of a query marked with `meta.persist`
+export const persistOfflineCache = (queryClient: QueryClient) =>
+    queryClient.getQueryCache().subscribe((event) => {
+        if (event.type !== "updated" || event.action.type !== "success") return;
+        // setQueryData during restore also reports success; skip those
+        if (event.action.manual) return;
+
+        const { query } = event;
+        if (!query.meta?.persist) return;
+
+        void writeOfflineEntry({
+            hash: query.queryHash,
+            version: CACHE_VERSION,
+            queryKey: query.queryKey,
+            data: query.state.data,
+            updatedAt: query.state.dataUpdatedAt,
+        }).catch((err) => console.warn("Failed to store offline data:", err));
+    });
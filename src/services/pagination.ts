@@ -0,0 +1,76 @@
+// Jolpica answers at most 100 rows per request (the default is 30) and
+// counts `total` in rows (results, standings entries, lap timings), not in
+// races, so a race can be split across two pages.
+export const JOLPICA_MAX_PAGE_SIZE = 100;
+
+export interface PageInfo {
+    limit: number;
+    offset: number;
+    total: number;
+}
+
+// Fetch every page of a list endpoint. The first page tells us `total`; the
+// remaining pages are requested together and ordered by the request queue.
+export const fetchAllPages = async <P>(
+    fetchPage: (limit: number, offset: number) => Promise<P>,
+    getPageInfo: (page: P) => Partial<PageInfo>,
+    pageSize: number = JOLPICA_MAX_PAGE_SIZE
+): Promise<P[]> => {
+    const first = await fetchPage(pageSize, 0);
+    const { total = 0, limit = 0 } = getPageInfo(first);
+    // Sources that ignore paging (fixtures) report a window covering `total`
+    const step = limit > 0 ? limit : pageSize;
+
+    const offsets: number[] = [];
+    for (let offset = step; offset < total; offset += step) {
+        offsets.push(offset);
+    }
+
+    const rest = await Promise.all(
+        offsets.map((offset) => fetchPage(step, offset))
+    );
+    return [first, ...rest];
+};
+
+// Concatenate arrays of two halves of the same record; `Laps` are merged lap
+// by lap because one lap's timings can straddle a page boundary
+const mergeRecords = <T extends object>(a: T, b: T): T => {
+    const merged = { ...a } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(b)) {
+        const existing = merged[key];
+        if (!Array.isArray(existing) || !Array.isArray(value)) continue;
+        merged[key] =
+            key === "Laps"
+                ? mergeSplitItems(
+                      [existing, value] as { number: number }[][],
+                      (lap) => String(lap.number)
+                  )
+                : [...existing, ...value];
+    }
+    return merged as T;
+};
+
+// Flatten pages of records, joining a record that continues on the next page
+export const mergeSplitItems = <T extends object>(
+    pages: T[][],
+    getKey: (item: T) => string
+): T[] => {
+    const merged: T[] = [];
+    for (const item of pages.flat()) {
+        const last = merged[merged.length - 1];
+        if (last && getKey(last) === getKey(item)) {
+            merged[merged.length - 1] = mergeRecords(last, item);
+        } else {
+            merged.push(item);
+        }
+    }
+    return merged;
+};
+
+export const mergeRacePages = <T extends { season?: string; round?: number }>(
+    pages: T[][]
+) => mergeSplitItems(pages, (race) => `${race.season}/${race.round}`);
+
+export const mergeStandingsPages = <T extends { season?: string; round?: number }>(
+    pages: T[][]
+) => mergeSplitItems(pages, (list) => `${list.season}/${list.round}`);
@@ -0,0 +1,242 @@
+import { F1DataSourceError } from "./dataSource";
+
+export interface RequestSchedulerOptions {
+    // Requests allowed in flight at once
+    maxConcurrent: number;
+    // Minimum spacing between two request starts, keeps bursts under the limit
+    minIntervalMs: number;
+    // Retries after a 429, 5xx or network failure before giving up
+    maxRetries: number;
+    // First backoff delay, doubled on every further attempt
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export interface RequestSchedulerStatus {
+    // True while the API is rate limiting us and requests are held back
+    throttled: boolean;
+    // When held-back requests will be sent again (epoch ms)
+    resumeAt: number | null;
+    // Requests queued or in flight
+    pending: number;
+}
+
+// The API kept answering 429 even after backing off
+export class F1RateLimitError extends F1DataSourceError {
+    readonly retryAfterMs: number | null;
+
+    constructor(retryAfterMs: number | null) {
+        super("rate limited by the API (HTTP 429)", 429);
+        this.name = "F1RateLimitError";
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+interface QueuedRequest {
+    url: string;
+    attempt: number;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+const DEFAULT_OPTIONS: RequestSchedulerOptions = {
+    maxConcurrent: 4,
+    minIntervalMs: 250,
+    maxRetries: 4,
+    baseDelayMs: 1000,
+    maxDelayMs: 60 * 1000,
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (
+    header: string | null,
+    now: number = Date.now()
+): number | null => {
+    if (!header) return null;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+// Single queue for every JSON request to a rate-limited API: caps concurrency,
+// spaces out request starts, dedupes identical in-flight URLs and backs off
+// exponentially (or per Retry-After) on 429 and 5xx responses.
+export class RequestScheduler {
+    private readonly options: RequestSchedulerOptions;
+    private readonly queue: QueuedRequest[] = [];
+    private readonly inFlight = new Map<string, Promise<unknown>>();
+    private readonly listeners = new Set<() => void>();
+    private active = 0;
+    private nextStartAt = 0;
+    private pausedUntil = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private status: RequestSchedulerStatus = {
+        throttled: false,
+        resumeAt: null,
+        pending: 0,
+    };
+
+    constructor(options: Partial<RequestSchedulerOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    fetchJson(url: string): Promise<unknown> {
+        const existing = this.inFlight.get(url);
+        if (existing) return existing;
+
+        const promise = new Promise<unknown>((resolve, reject) => {
+            this.queue.push({ url, attempt: 0, resolve, reject });
+        }).finally(() => {
+            this.inFlight.delete(url);
+            this.updateStatus();
+        });
+
+        this.inFlight.set(url, promise);
+        this.updateStatus();
+        this.pump();
+        return promise;
+    }
+
+    getStatus = (): RequestSchedulerStatus => this.status;
+
+    subscribe = (listener: () => void) => {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    };
+
+    private pump() {
+        if (this.timer) return;
+
+        while (this.queue.length > 0 && this.active < this.options.maxConcurrent) {
+            const now = Date.now();
+            const startAt = Math.max(this.nextStartAt, this.pausedUntil);
+
+            if (startAt > now) {
+                this.timer = setTimeout(() => {
+                    this.timer = null;
+                    this.pump();
+                }, startAt - now);
+                return;
+            }
+
+            this.nextStartAt = now + this.options.minIntervalMs;
+            this.run(this.queue.shift());
+        }
+    }
+
+    private async run(request: QueuedRequest) {
+        this.active++;
+        try {
+            const response = await fetch(request.url);
+
+            if (response.ok) {
+                request.resolve(await response.json());
+                return;
+            }
+
+            if (!isRetryableStatus(response.status)) {
+                request.reject(
+                    new F1DataSourceError(
+                        `HTTP ${response.status}`,
+                        response.status
+                    )
+                );
+                return;
+            }
+
+            const retryAfter = parseRetryAfter(
+                response.headers.get("Retry-After")
+            );
+
+            if (response.status === 429) {
+                if (request.attempt >= this.options.maxRetries) {
+                    request.reject(new F1RateLimitError(retryAfter));
+                    return;
+                }
+                // Hold back the whole queue, not just this request
+                this.pausedUntil =
+                    Date.now() + (retryAfter ?? this.backoff(request.attempt));
+                this.setThrottled(true);
+                this.retry(request, 0);
+                return;
+            }
+
+            if (request.attempt >= this.options.maxRetries) {
+                request.reject(
+                    new F1DataSourceError(
+                        `HTTP ${response.status}`,
+                        response.status
+                    )
+                );
+                return;
+            }
+            this.retry(request, retryAfter ?? this.backoff(request.attempt));
+        } catch (err) {
+            // Network failure or unreadable body
+            if (request.attempt >= this.options.maxRetries) {
+                request.reject(err);
+                return;
+            }
+            this.retry(request, this.backoff(request.attempt));
+        } finally {
+            this.active--;
+            // Also after giving up, or the notice would outlive the last retry
+            if (this.status.throttled && Date.now() >= this.pausedUntil) {
+                this.setThrottled(false);
+            }
+            this.pump();
+        }
+    }
+
+    private retry(request: QueuedRequest, delayMs: number) {
+        const next = { ...request, attempt: request.attempt + 1 };
+        if (delayMs <= 0) {
+            this.queue.unshift(next);
+            return;
+        }
+        setTimeout(() => {
+            this.queue.unshift(next);
+            this.pump();
+        }, delayMs);
+    }
+
+    // Exponential backoff with up to 20 % jitter so parallel retries spread out
+    private backoff(attempt: number) {
+        const delay = Math.min(
+            this.options.baseDelayMs * 2 ** attempt,
+            this.options.maxDelayMs
+        );
+        return delay + Math.random() * delay * 0.2;
+    }
+
+    private setThrottled(throttled: boolean) {
+        this.status = {
+            ...this.status,
+            throttled,
+            resumeAt: throttled ? this.pausedUntil : null,
+        };
+        this.emit();
+    }
+
+    private updateStatus() {
+        if (this.status.pending === this.inFlight.size) return;
+        this.status = { ...this.status, pending: this.inFlight.size };
+        this.emit();
+    }
+
+    private emit() {
+        this.listeners.forEach((listener) => listener());
+    }
+}
+
+// Jolpica allows bursts of 4 requests per second and 500 per hour
+export const jolpicaScheduler = new RequestScheduler();
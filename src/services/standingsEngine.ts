@@ -0,0 +1,89 @@
+import { compareByCountback, createEntry, isClassified, recordFinish, type ScoredEntry } from "@/lib/standings";
+import type {
+    Constructor,
+    ConstructorStanding,
+    Driver,
+    DriverStanding,
+    RaceWithResults,
+    RaceWithSprint,
+} from "./f1Schemas";
+
+type Classification = RaceWithResults["Results"];
+
+interface Tally<T> extends ScoredEntry {
+    wins: number;
+    subject: T;
+}
+
+// Sprints first within a round, so the latest team a driver raced for wins
+const sessionsInOrder = (results: RaceWithResults[], sprints: RaceWithSprint[]) =>
+    [
+        ...sprints.map((race) => ({ round: race.round, isRace: false, classification: race.SprintResults })),
+        ...results.map((race) => ({ round: race.round, isRace: true, classification: race.Results })),
+    ].sort((a, b) => a.round - b.round || Number(a.isRace) - Number(b.isRace));
+
+// Sums the points each result was awarded, so fastest-lap bonuses and half
+// points count exactly as the FIA gave them. Only Grand Prix finishes count
+// back, sprint finishes don't.
+const tally = <T>(
+    results: RaceWithResults[],
+    sprints: RaceWithSprint[],
+    keyOf: (result: Classification[number]) => { id: string; subject: T }
+) => {
+    const entries = new Map<string, Tally<T>>();
+    for (const { isRace, classification } of sessionsInOrder(results, sprints)) {
+        for (const result of classification) {
+            const { id, subject } = keyOf(result);
+            const entry = entries.get(id) ?? { ...createEntry(id), wins: 0, subject };
+            entries.set(id, entry);
+            entry.points += result.points;
+            if (isRace && isClassified(result.positionText)) {
+                recordFinish(entry, result.position);
+                if (result.position === 1) entry.wins++;
+            }
+        }
+    }
+    return [...entries.values()].sort(compareByCountback);
+};
+
+// Driver standings derived from every race and sprint result of a season
+export const computeDriverStandings = (
+    results: RaceWithResults[],
+    sprints: RaceWithSprint[]
+): DriverStanding[] => {
+    const constructors = new Map<string, Constructor[]>();
+    const drivers = tally<Driver>(results, sprints, (result) => {
+        const teams = constructors.get(result.Driver.driverId) ?? [];
+        if (!teams.some((team) => team.constructorId === result.Constructor.constructorId)) {
+            teams.push(result.Constructor);
+        }
+        constructors.set(result.Driver.driverId, teams);
+        return { id: result.Driver.driverId, subject: result.Driver };
+    });
+
+    return drivers.map((entry, index) => ({
+        position: index + 1,
+        positionText: String(index + 1),
+        points: entry.points,
+        wins: entry.wins,
+        Driver: entry.subject,
+        Constructors: constructors.get(entry.id) ?? [],
+    }));
+};
+
+// Constructor standings derived from every race and sprint result of a season.
+// Every car scores, which is the rule since 1979.
+export const computeConstructorStandings = (
+    results: RaceWithResults[],
+    sprints: RaceWithSprint[]
+): ConstructorStanding[] =>
+    tally<Constructor>(results, sprints, (result) => ({
+        id: result.Constructor.constructorId,
+        subject: result.Constructor,
+    })).map((entry, index) => ({
+        position: index + 1,
+        positionText: String(index + 1),
+        points: entry.points,
+        wins: entry.wins,
+        Constructor: entry.subject,
+    }));
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** "jolpica" (default) or "fixture" for the recorded responses in /fixtures */
+  readonly VITE_F1_DATA_SOURCE?: "jolpica" | "fixture";
+  /** Override of the Jolpica API root, e.g. for a self-hosted mirror */
+  readonly VITE_JOLPICA_BASE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
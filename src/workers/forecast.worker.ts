@@ -0,0 +1,24 @@
+import { runForecast, type ForecastInput, type ForecastOptions, type ForecastResult } from "@/lib/forecast"
+
+export interface ForecastRequest {
+  id: number
+  input: ForecastInput
+  options: ForecastOptions
+}
+
+export type ForecastResponse =
+  | { id: number; result: ForecastResult }
+  | { id: number; error: string }
+
+// Runs the simulations off the main thread; `id` lets the caller drop
+// answers to requests it has since replaced
+self.onmessage = (event: MessageEvent<ForecastRequest>) => {
+  const { id, input, options } = event.data
+  let response: ForecastResponse
+  try {
+    response = { id, result: runForecast(input, options) }
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) }
+  }
+  self.postMessage(response)
+}